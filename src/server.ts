@@ -0,0 +1,2056 @@
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ReadResourceResult, GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import { config } from './services/config.js';
+import { rentcastAPI, RentcastAPIService } from './services/rentcast-api.js';
+import {
+  PropertySearchSchema,
+  RandomPropertiesSchema,
+  MarketAnalysisSchema,
+  DEFAULT_MARKET_HISTORY_MONTHS,
+  AVMSchema,
+  ListingSearchSchema,
+  PropertyDetailSchema,
+  RentEstimateSchema,
+  RentEstimateResponse,
+  ListingTypeSchema,
+  RENTCAST_ENDPOINTS,
+  ApiCallResult,
+  PropertyListOutputSchema,
+  ListingListOutputSchema,
+  MarketAnalysisOutputSchema,
+  ValueEstimateOutputSchema,
+  RentEstimateOutputSchema,
+  PropertyDetailOutputSchema,
+  ServerStatusOutputSchema,
+  ListingDetailSchema,
+  ListingDetailOutputSchema,
+  ListingContactOutput,
+  TimelineEventOutput,
+  MarketTrendOutput,
+  CompareMarketsSchema,
+  MarketComparisonOutputSchema,
+  MarketComparisonRowOutput,
+  InvestmentAnalysisSchema,
+  InvestmentAnalysisOutputSchema,
+  SubjectPropertyOutput,
+  ComparableOutput,
+  ComparableSummaryOutput,
+  AVMControls,
+  BatchValuationSchema,
+  BatchValuationOutputSchema,
+  PortfolioProperty,
+  PortfolioPropertyResultOutput,
+  RecentEntityKind,
+  UnderwriteRentalPromptArgs,
+  NeighborhoodBriefPromptArgs,
+  ListingDueDiligencePromptArgs,
+  RentPricingAdvicePromptArgs
+} from './types/index.js';
+import {
+  fetchPages,
+  cursorScope,
+  encodeCursor,
+  decodeCursor,
+  PagedResult
+} from './services/pagination.js';
+import {
+  normalizeProperty,
+  normalizeListing,
+  normalizeListingDetail,
+  normalizeMarket,
+  normalizeComparable
+} from './services/normalizers.js';
+import { buildPropertyTimeline } from './services/property-timeline.js';
+import { analyzeMarketTrends, trendMetricLabel } from './services/market-trends.js';
+import { summarizeMarketForComparison, rankMarkets } from './services/market-comparison.js';
+import { mapWithConcurrency } from './services/concurrency.js';
+import { sortComparables, summarizeComparables, ComparableSortKey } from './services/comparables.js';
+import { loadPortfolioCsv, ApiCallMeter, summarizePortfolio } from './services/portfolio.js';
+import { analyzeInvestment, latestPropertyTax, InvestmentAssumptions } from './services/investment-analysis.js';
+import {
+  underwriteRentalPrompt,
+  neighborhoodBriefPrompt,
+  listingDueDiligencePrompt,
+  rentPricingAdvicePrompt
+} from './services/prompts.js';
+import { API_ERROR_REMEDIATION } from './services/api-errors.js';
+import { logger, createRequestId, withLogContext, redactParams } from './services/logger.js';
+import { z } from 'zod';
+
+// ========================================
+// 🛠️ SMART HELPER FUNCTION
+// ========================================
+
+/**
+ * Smart property formatter that handles all Rentcast API data structures
+ * Automatically detects property type and formats accordingly
+ */
+function formatPropertyInfo(prop: any): string {
+  const address = prop.formattedAddress || 'Address not available';
+  
+  // Smart price detection and formatting
+  let priceDisplay = 'N/A';
+  let priceType = '';
+  
+  if (prop.price) {
+    // Sale listing or rental listing
+    if (prop.rent || prop.listingType === 'Rental') {
+      // Rental listing - price is monthly rent
+      priceDisplay = `$${Number(prop.price).toLocaleString()}/month`;
+      priceType = ' (Monthly Rent)';
+    } else {
+      // Sale listing - price is sale price
+      priceDisplay = `$${Number(prop.price).toLocaleString()}`;
+      if (prop.status === 'Active') {
+        priceType = ' (Active Listing)';
+      } else {
+        priceType = ' (Listing)';
+      }
+    }
+  } else if (prop.rent) {
+    // Rental listing with rent field
+    priceDisplay = `$${Number(prop.rent).toLocaleString()}/month`;
+    priceType = ' (Monthly Rent)';
+  } else if (prop.lastSalePrice) {
+    // Property record with last sale price
+    priceDisplay = `$${Number(prop.lastSalePrice).toLocaleString()}`;
+    priceType = ' (Last Sale)';
+  } else if (prop.history && Object.keys(prop.history).length > 0) {
+    // Try to get price from history
+    const saleDates = Object.keys(prop.history).filter(date => {
+      const historyEntry = prop.history[date as keyof typeof prop.history];
+      return historyEntry?.event === 'Sale' || historyEntry?.event === 'Sale Listing';
+    }).sort().reverse();
+    
+    if (saleDates.length > 0) {
+      const latestSale = prop.history[saleDates[0]!];
+      if (latestSale?.price) {
+        priceDisplay = `$${Number(latestSale.price).toLocaleString()}`;
+        priceType = ` (${saleDates[0]})`;
+      } else if (latestSale?.event === 'Sale' || latestSale?.event === 'Sale Listing') {
+        priceDisplay = `Sale recorded (${saleDates[0]})`;
+        priceType = ' - No price data';
+      }
+    }
+  }
+  
+  // If still no price data, show property type and year built
+  if (priceDisplay === 'N/A') {
+    priceDisplay = prop.propertyType || 'Property';
+    priceType = prop.yearBuilt ? ` (${prop.yearBuilt})` : '';
+  }
+  
+  // Safe null/undefined checking for all fields
+  const beds = prop.bedrooms != null ? `${prop.bedrooms} bed` : 'N/A bed';
+  const baths = prop.bathrooms != null ? `${prop.bathrooms} bath` : 'N/A bath';
+  const sqft = prop.squareFootage != null ? `${Number(prop.squareFootage).toLocaleString()} sqft` : 'N/A';
+  
+  // Additional details with safe checking
+  const lotSize = prop.lotSize != null ? ` | 🌳 ${Number(prop.lotSize).toLocaleString()} sqft lot` : '';
+  const yearBuilt = prop.yearBuilt != null ? ` | 📅 ${prop.yearBuilt} built` : '';
+  const lastSaleDate = prop.lastSaleDate ? ` | Date: ${prop.lastSaleDate.split('T')[0]} last sale` : '';
+  const status = prop.status ? ` | Status: ${prop.status}` : '';
+  const daysOnMarket = prop.daysOnMarket != null ? ` | Days: ${prop.daysOnMarket} days on market` : '';
+  const propertyType = prop.propertyType ? ` | Type: ${prop.propertyType}` : '';
+  
+  // Build comprehensive property info
+  let propertyInfo = `Address: ${address}\nPrice: ${priceDisplay}${priceType} | Beds: ${beds} | Baths: ${baths} | SqFt: ${sqft}`;
+  
+  // Add optional details
+  if (lotSize || yearBuilt || lastSaleDate || status || daysOnMarket || propertyType) {
+    propertyInfo += `${lotSize}${yearBuilt}${lastSaleDate}${status}${daysOnMarket}${propertyType}`;
+  }
+  
+  return propertyInfo;
+}
+
+/**
+ * Format sale market data for market analysis tool
+ */
+function formatSaleMarketData(saleData: any): string {
+  if (!saleData) return '';
+  
+  let result = `\nSales Market:`;
+  
+  // Current month data
+  if (saleData.averagePrice !== undefined) {
+    result += `\nAverage Price: $${Number(saleData.averagePrice).toLocaleString()}`;
+  }
+  if (saleData.medianPrice !== undefined) {
+    result += `\n📈 Median Price: $${Number(saleData.medianPrice).toLocaleString()}`;
+  }
+  if (saleData.averagePricePerSquareFoot !== undefined) {
+    result += `\n📐 Avg Price/Sqft: $${Number(saleData.averagePricePerSquareFoot).toFixed(2)}`;
+  }
+  if (saleData.averageDaysOnMarket !== undefined) {
+    result += `\nAvg Days on Market: ${Number(saleData.averageDaysOnMarket).toFixed(1)}`;
+  }
+  if (saleData.newListings !== undefined) {
+    result += `\n🆕 New Listings: ${saleData.newListings}`;
+  }
+  if (saleData.totalListings !== undefined) {
+    result += `\n📋 Total Listings: ${saleData.totalListings}`;
+  }
+  
+  // Property type breakdown
+  if (saleData.dataByPropertyType && saleData.dataByPropertyType.length > 0) {
+    result += `\n\n🏠 By Property Type:`;
+    saleData.dataByPropertyType.slice(0, 3).forEach((typeData: any) => {
+      const avgPrice = typeData.averagePrice ? `$${Number(typeData.averagePrice).toLocaleString()}` : 'N/A';
+      result += `\n• ${typeData.propertyType}: ${avgPrice} avg`;
+    });
+  }
+  
+  return result;
+}
+
+/**
+ * Format rental market data for market analysis tool
+ */
+function formatRentalMarketData(rentalData: any): string {
+  if (!rentalData) return '';
+  
+  let result = `\n\n🏘️ Rental Market:`;
+  
+  // Current month data
+  if (rentalData.averageRent !== undefined) {
+    result += `\n💰 Average Rent: $${Number(rentalData.averageRent).toLocaleString()}/month`;
+  }
+  if (rentalData.medianRent !== undefined) {
+    result += `\n📈 Median Rent: $${Number(rentalData.medianRent).toLocaleString()}/month`;
+  }
+  if (rentalData.averageRentPerSquareFoot !== undefined) {
+    result += `\n📐 Avg Rent/Sqft: $${Number(rentalData.averageRentPerSquareFoot).toFixed(2)}`;
+  }
+  if (rentalData.newListings !== undefined) {
+    result += `\n🆕 New Listings: ${rentalData.newListings}`;
+  }
+  if (rentalData.totalListings !== undefined) {
+    result += `\n📋 Total Listings: ${rentalData.totalListings}`;
+  }
+  
+  // Property type breakdown
+  if (rentalData.dataByPropertyType && rentalData.dataByPropertyType.length > 0) {
+    result += `\n\n🏠 By Property Type:`;
+    rentalData.dataByPropertyType.slice(0, 3).forEach((typeData: any) => {
+      const avgRent = typeData.averageRent ? `$${Number(typeData.averageRent).toLocaleString()}/month` : 'N/A';
+      result += `\n• ${typeData.propertyType}: ${avgRent} avg`;
+    });
+  }
+  
+  return result;
+}
+
+/**
+ * Format market trend history (MoM / YoY changes) for market analysis tool
+ */
+function formatMarketTrends(trend: MarketTrendOutput, isRental: boolean): string {
+  const formatValue = (metric: string, value: number): string => {
+    if (metric === 'medianPrice') return `$${Math.round(value).toLocaleString()}`;
+    if (metric === 'medianRent') return `$${Math.round(value).toLocaleString()}/month`;
+    if (metric.endsWith('PerSquareFoot')) return `$${value.toFixed(2)}`;
+    if (metric === 'averageDaysOnMarket') return `${value.toFixed(1)} days`;
+    return Math.round(value).toLocaleString();
+  };
+  const formatPercent = (percent: number | null | undefined): string =>
+    percent == null ? 'N/A' : `${percent > 0 ? '+' : ''}${percent}%`;
+  const arrows = { up: '↗️', down: '↘️', flat: '➡️' };
+
+  let result = `\n\n📉 **${isRental ? 'Rental' : 'Sales'} Trends (${trend.months} months, ${trend.from} → ${trend.to}):**`;
+  trend.metrics.forEach(metric => {
+    if (metric.current == null) return;
+    result += `\n• ${trendMetricLabel(metric.metric)}: ${formatValue(metric.metric, metric.current)}`;
+    result += ` | MoM ${formatPercent(metric.monthOverMonthPercent)} | YoY ${formatPercent(metric.yearOverYearPercent)}`;
+    if (metric.direction) result += ` ${arrows[metric.direction]}`;
+  });
+  result += `\n🧭 ${trend.summary}`;
+
+  return result;
+}
+
+/**
+ * Format ranked market comparison rows as a markdown table
+ */
+function formatMarketComparison(rows: MarketComparisonRowOutput[]): string {
+  const money = (value?: number | null) => value != null ? `$${Math.round(value).toLocaleString()}` : 'N/A';
+  const num = (value?: number | null, digits = 0) => value != null ? value.toFixed(digits) : 'N/A';
+
+  let result = `\n| # | ZIP | Median Price | Median Rent | Gross Yield | $/sqft | Days on Market | Listings |`;
+  result += `\n|---|-----|--------------|-------------|-------------|--------|----------------|----------|`;
+  rows.forEach(row => {
+    result += `\n| ${row.rank ?? '-'} | ${row.zipCode} | ${money(row.medianPrice)} | ${money(row.medianRent)}` +
+      ` | ${row.grossRentYield != null ? `${row.grossRentYield.toFixed(2)}%` : 'N/A'}` +
+      ` | ${row.pricePerSquareFoot != null ? `$${row.pricePerSquareFoot.toFixed(2)}` : 'N/A'}` +
+      ` | ${num(row.daysOnMarket, 1)} | ${num(row.inventory)} |`;
+  });
+
+  return result;
+}
+
+/**
+ * Format comparables (normalized, already sorted) and their summary for
+ * AVM and rent estimates tools
+ */
+function formatComparables(
+  comparables: ComparableOutput[],
+  summary: ComparableSummaryOutput,
+  options: { isRental: boolean; limit: number; sortBy: ComparableSortKey }
+): string {
+  if (comparables.length === 0) return '';
+
+  const unit = options.isRental ? '/month' : '';
+  const money = (value?: number | null, digits = 0) =>
+    value != null ? `$${Number(value).toLocaleString(undefined, { maximumFractionDigits: digits, minimumFractionDigits: digits })}` : 'N/A';
+  const shown = comparables.slice(0, options.limit);
+
+  let resultText = `\n\n📊 **Comparable Properties (${shown.length} of ${comparables.length}, by ${options.sortBy}):**`;
+  shown.forEach((comp, index) => {
+    const distance = comp.distance != null ? `${comp.distance.toFixed(2)} miles` : 'N/A';
+    const correlation = comp.correlation != null ? `${(comp.correlation * 100).toFixed(1)}% match` : 'N/A';
+
+    resultText += `\n${index + 1}. 📍 ${comp.formattedAddress || 'Address not available'}`;
+    resultText += `\n   💰 ${money(comp.price)}${comp.price != null ? unit : ''} | 📐 ${comp.squareFootage ? `${Number(comp.squareFootage).toLocaleString()} sqft` : 'N/A'}` +
+      ` (${money(comp.pricePerSquareFoot, 2)}/sqft) | 🛏️ ${comp.bedrooms ?? 'N/A'} bed | 🚿 ${comp.bathrooms ?? 'N/A'} bath`;
+    resultText += `\n   🌍 ${distance} | 🎯 ${correlation}`;
+    if (comp.daysOld != null) resultText += ` | 🕒 ${comp.daysOld} days old`;
+  });
+
+  resultText += `\n\n🧮 **Comparable Summary (${summary.count}):**`;
+  resultText += `\n• Median: ${money(summary.medianPrice)}${unit} | Average: ${money(summary.averagePrice)}${unit}`;
+  if (summary.correlationWeightedPrice != null) {
+    resultText += `\n• Correlation-weighted: ${money(summary.correlationWeightedPrice)}${unit}`;
+  }
+  const perSqftLabel = options.isRental ? 'rent/sqft' : 'price/sqft';
+  resultText += `\n• Median ${perSqftLabel}: ${money(summary.medianPricePerSquareFoot, 2)}`;
+  if (summary.sizeAdjustedValue != null) {
+    resultText += `\n• Size-adjusted ${options.isRental ? 'rent' : 'value'}: ${money(summary.sizeAdjustedValue)}${unit}` +
+      ` (median ${perSqftLabel} × ${Number(summary.subjectSquareFootage).toLocaleString()} sqft)`;
+  }
+
+  return resultText;
+}
+
+/**
+ * Format batch valuation rows as a markdown table (first `limit` rows)
+ */
+function formatPortfolioTable(results: PortfolioPropertyResultOutput[], limit: number): string {
+  const money = (value?: number | null) => value != null ? `$${Math.round(value).toLocaleString()}` : 'N/A';
+  const statusIcons = { ok: '✅', partial: '⚠️', failed: '❌' };
+
+  let result = `\n| # | Property | Value | Rent/month | Gross Yield | Status |`;
+  result += `\n|---|----------|-------|------------|-------------|--------|`;
+  results.slice(0, limit).forEach(row => {
+    const name = [row.label, row.address].filter(Boolean).join(' – ') || `Row ${row.index + 1}`;
+    result += `\n| ${row.index + 1} | ${name} | ${money(row.value)} | ${money(row.rent)}` +
+      ` | ${row.grossYield != null ? `${row.grossYield.toFixed(2)}%` : 'N/A'} | ${statusIcons[row.status]} |`;
+  });
+  if (results.length > limit) {
+    result += `\n\n… ${results.length - limit} more in the structured output`;
+  }
+
+  return result;
+}
+
+/**
+ * Format a contact line (agent or office) for listing detail tool
+ */
+function formatContact(label: string, contact?: ListingContactOutput): string {
+  if (!contact || !contact.name) return '';
+  const details = [
+    contact.phone ? `📞 ${contact.phone}` : '',
+    contact.email ? `✉️ ${contact.email}` : '',
+    contact.website ? `🌐 ${contact.website}` : ''
+  ].filter(Boolean).join(' | ');
+  return `\n${label}: ${contact.name}${details ? ` | ${details}` : ''}`;
+}
+
+/**
+ * Format a property timeline (oldest first) with price deltas
+ */
+function formatTimeline(timeline: TimelineEventOutput[]): string {
+  if (timeline.length === 0) return '';
+  
+  const labels: Record<TimelineEventOutput['kind'], string> = {
+    sold: '🏷️ Sold',
+    listed: '📌 Listed',
+    price_change: '🔁 Price change',
+    removed: '⏹️ Off market'
+  };
+  
+  let result = `\n\n📜 **Property Timeline (${timeline.length} events):**`;
+  timeline.forEach(entry => {
+    const isRent = entry.category === 'rental';
+    const what = entry.category === 'sale' ? '' : isRent ? ' for rent' : ' for sale';
+    const price = entry.price != null
+      ? ` at $${Number(entry.price).toLocaleString()}${isRent ? '/month' : ''}`
+      : '';
+    let line = entry.kind === 'removed'
+      ? `\n• ${entry.date}: ${labels.removed}${isRent ? ' (rental)' : ''}`
+      : `\n• ${entry.date}: ${labels[entry.kind]}${what}${price}`;
+    if (entry.priceChange != null) {
+      const sign = entry.priceChange >= 0 ? '+' : '-';
+      line += ` (${sign}$${Math.abs(entry.priceChange).toLocaleString()}`;
+      if (entry.percentChange != null) line += `, ${sign}${Math.abs(entry.percentChange)}%`;
+      line += ')';
+    }
+    if (entry.kind === 'removed' && entry.daysOnMarket != null) {
+      line += ` after ${entry.daysOnMarket} days on market`;
+    }
+    result += line;
+  });
+  
+  return result;
+}
+
+/**
+ * Build search parameters for property search tools
+ */
+function buildPropertySearchParams(params: any, includeLimit: boolean = true): any {
+  const searchParams: any = {};
+  
+  if (includeLimit && params.limit) {
+    searchParams.limit = params.limit;
+  }
+  
+  if (params.address) searchParams.address = params.address;
+  if (params.city) searchParams.city = params.city;
+  if (params.state) searchParams.state = params.state;
+  if (params.zipCode) searchParams.zipCode = params.zipCode;
+  if (params.latitude !== undefined && params.longitude !== undefined) {
+    searchParams.latitude = params.latitude;
+    searchParams.longitude = params.longitude;
+  }
+  if (params.radius !== undefined) searchParams.radius = params.radius;
+  if (params.bedrooms !== undefined) searchParams.bedrooms = params.bedrooms;
+  if (params.bathrooms !== undefined) searchParams.bathrooms = params.bathrooms;
+  if (params.propertyType) searchParams.propertyType = params.propertyType;
+  if (params.squareFootage) searchParams.squareFootage = params.squareFootage;
+  if (params.lotSize) searchParams.lotSize = params.lotSize;
+  if (params.yearBuilt) searchParams.yearBuilt = params.yearBuilt;
+  if (params.saleDateRange) searchParams.saleDateRange = params.saleDateRange;
+  if (params.priceRange) searchParams.priceRange = params.priceRange;
+  if (params.price !== undefined) searchParams.price = params.price;
+  if (params.status) searchParams.status = params.status;
+  if (params.daysOld !== undefined) searchParams.daysOld = params.daysOld;
+  if (params.offset) searchParams.offset = params.offset;
+  
+  return searchParams;
+}
+
+/**
+ * Validate filter combinations that Zod field schemas can't express.
+ * Returns an error message, or null when the combination is valid.
+ */
+function validateLocationFilters(params: any): string | null {
+  const hasLatitude = params.latitude !== undefined;
+  const hasLongitude = params.longitude !== undefined;
+  
+  if (hasLatitude !== hasLongitude) {
+    return "latitude and longitude must be provided together";
+  }
+  if (params.radius !== undefined && !params.address && !hasLatitude) {
+    return "radius requires a center point: provide address or latitude + longitude";
+  }
+  
+  return null;
+}
+
+/**
+ * Run a (possibly multi-page) search: resume from the cursor or offset,
+ * walk Rentcast's offset parameter up to maxResults, and issue the next cursor
+ */
+async function runPagedSearch(
+  endpoint: string,
+  params: any,
+  fetchPage: (pageParams: any) => Promise<ApiCallResult>
+): Promise<PagedResult & { nextCursor: string | null }> {
+  const { offset, ...searchParams } = buildPropertySearchParams(params, false);
+  const scope = cursorScope(endpoint, searchParams);
+  const startOffset = params.cursor ? decodeCursor(params.cursor, scope) : (offset ?? 0);
+  const pageSize = params.limit;
+  
+  const paged = await fetchPages(
+    (page) => fetchPage({
+      ...searchParams,
+      limit: page.limit,
+      ...(page.offset > 0 && { offset: page.offset })
+    }),
+    {
+      startOffset,
+      pageSize,
+      maxResults: params.maxResults ?? pageSize,
+      maxPages: config.maxPagesPerCall
+    }
+  );
+  
+  return {
+    ...paged,
+    nextCursor: paged.nextOffset !== null ? encodeCursor(scope, paged.nextOffset) : null
+  };
+}
+
+/**
+ * Footer for paged results: hidden items, partial failures and the next cursor
+ */
+function formatPaginationFooter(
+  paged: PagedResult & { nextCursor: string | null },
+  shown: number,
+  noun: string
+): string {
+  let footer = '';
+  
+  if (paged.items.length > shown) {
+    footer += `\n\n... and ${paged.items.length - shown} more ${noun} in the structured results`;
+  }
+  if (paged.failure?.error) {
+    footer += `\n\n⚠️ Stopped after ${paged.pagesFetched} page(s): ${paged.failure.error.message}`;
+  }
+  if (paged.nextCursor) {
+    footer += `\n\n📄 More ${noun} available: call again with the same filters and cursor "${paged.nextCursor}", or raise maxResults`;
+  }
+  
+  return footer;
+}
+
+/**
+ * Build search parameters for AVM and rent estimate tools
+ */
+function buildAVMSearchParams(params: any): any {
+  const searchParams: any = {};
+  
+  // Prioritize address if provided, otherwise use other parameters
+  if (params.address) {
+    searchParams.address = params.address;
+  } else if (params.latitude !== undefined && params.longitude !== undefined) {
+    searchParams.latitude = params.latitude;
+    searchParams.longitude = params.longitude;
+  } else if (params.propertyId) {
+    searchParams.propertyId = params.propertyId;
+  }
+  
+  // Add additional parameters if available (these improve accuracy)
+  if (params.propertyType) searchParams.propertyType = params.propertyType;
+  if (params.bedrooms !== undefined && params.bedrooms !== null) searchParams.bedrooms = params.bedrooms;
+  if (params.bathrooms !== undefined && params.bathrooms !== null) searchParams.bathrooms = params.bathrooms;
+  if (params.squareFootage !== undefined && params.squareFootage !== null) searchParams.squareFootage = params.squareFootage;
+  
+  applyAVMControls(searchParams, params);
+  
+  return searchParams;
+}
+
+/**
+ * Rentcast comparable-selection controls accepted by both AVM endpoints
+ */
+const AVM_CONTROL_KEYS = ['maxRadius', 'daysOld', 'compCount', 'lookupSubjectAttributes'] as const;
+
+/**
+ * Copy comparable-selection controls onto AVM search parameters
+ */
+function applyAVMControls(searchParams: Record<string, any>, params: any): void {
+  AVM_CONTROL_KEYS.forEach(key => {
+    if (params[key] !== undefined && params[key] !== null) searchParams[key] = params[key];
+  });
+}
+
+/**
+ * Settings echoed in AVM responses so a valuation can be reproduced
+ */
+function describeAVMSettings(searchParams: Record<string, any>): AVMControls & { request: Record<string, string | number | boolean> } {
+  const controls: AVMControls = Object.fromEntries(
+    AVM_CONTROL_KEYS.filter(key => searchParams[key] !== undefined).map(key => [key, searchParams[key]])
+  );
+  return { ...controls, request: { ...searchParams } };
+}
+
+/**
+ * Format comparable-selection settings for AVM tools
+ */
+function formatAVMSettings(settings: AVMControls): string {
+  const parts = [
+    settings.maxRadius !== undefined ? `max radius ${settings.maxRadius} miles` : '',
+    settings.daysOld !== undefined ? `seen within ${settings.daysOld} days` : '',
+    settings.compCount !== undefined ? `${settings.compCount} comps` : '',
+    settings.lookupSubjectAttributes !== undefined ? `subject lookup ${settings.lookupSubjectAttributes ? 'on' : 'off'}` : ''
+  ].filter(Boolean);
+  return `\n⚙️ Comp selection: ${parts.length > 0 ? `${parts.join(' | ')} (Rentcast defaults for the rest)` : 'Rentcast defaults'}`;
+}
+
+/**
+ * Create standardized error response
+ */
+function createErrorResponse(message: string, error?: any): any {
+  const errorText = error ? `${message}: ${error}` : message;
+  return {
+    content: [{
+      type: "text",
+      text: errorText
+    }],
+    isError: true
+  };
+}
+
+/**
+ * Create error response for a failed Rentcast API call,
+ * including the error category and remediation advice for the model
+ */
+function createApiErrorResponse(message: string, result: ApiCallResult): any {
+  const error = result.error;
+  if (!error) {
+    return createErrorResponse(message, 'Unknown error');
+  }
+
+  let errorText = `${message}: ${error.message}`;
+  errorText += `\n\n🏷️ Error Type: ${error.type}`;
+  if (result.attempts && result.attempts > 1) {
+    errorText += ` (after ${result.attempts} attempts)`;
+  }
+  if (error.type === 'rate_limited' && error.retryAfterMs !== undefined) {
+    errorText += `\n⏳ Retry After: ${Math.ceil(error.retryAfterMs / 1000)}s`;
+  }
+  errorText += `\n\n💡 ${API_ERROR_REMEDIATION[error.type]}`;
+
+  return createErrorResponse(errorText);
+}
+
+/**
+ * Create standardized success response
+ */
+function createSuccessResponse(text: string, structuredContent?: Record<string, unknown>): any {
+  return {
+    content: [{
+      type: "text",
+      text: text
+    }],
+    ...(structuredContent && { structuredContent })
+  };
+}
+
+/**
+ * Create error response for an unexpected exception, logging it with its stack
+ */
+function createExceptionResponse(message: string, error: unknown): any {
+  logger.error(message, { error });
+  return createErrorResponse(message, error instanceof Error ? error.message : 'Unknown error');
+}
+
+/**
+ * Wrap a tool handler so each call gets a request ID that its upstream
+ * Rentcast requests share, and its arguments, outcome and latency are logged
+ */
+function traceTool<A extends unknown[], R>(name: string, handler: (...args: A) => Promise<R>): (...args: A) => Promise<R> {
+  return (...args) => {
+    // Handlers receive (params, extra), or just (extra) for tools without input
+    const extra = args[args.length - 1] as { sessionId?: string } | undefined;
+    const context = {
+      requestId: createRequestId(),
+      tool: name,
+      ...(extra?.sessionId && { sessionId: extra.sessionId })
+    };
+
+    return withLogContext(context, async () => {
+      const startedAt = Date.now();
+      logger.info('Tool called', { params: args.length > 1 ? redactParams(args[0]) : {} });
+      try {
+        const result = await handler(...args);
+        const latencyMs = Date.now() - startedAt;
+        const outcome = result as { isError?: boolean; content?: { text?: string }[] };
+        if (outcome.isError) {
+          logger.warn('Tool returned an error', { latencyMs, error: outcome.content?.[0]?.text?.split('\n')[0] });
+        } else {
+          logger.info('Tool completed', { latencyMs });
+        }
+        return result;
+      } catch (error) {
+        logger.error('Tool threw', { latencyMs: Date.now() - startedAt, error });
+        throw error;
+      }
+    });
+  };
+}
+
+/**
+ * Subject attributes the AVM endpoints use
+ */
+const SUBJECT_ATTRIBUTES = ['address', 'latitude', 'longitude', 'propertyType', 'bedrooms', 'bathrooms', 'squareFootage'] as const;
+
+interface HydratedSubject {
+  params: any;
+  subject: SubjectPropertyOutput;
+  // Property record fetched for a propertyId, for callers that need more of it
+  propertyRecord?: any;
+  failure?: { message: string; result: ApiCallResult };
+}
+
+/**
+ * Fill in missing subject attributes (address, coordinates, type, beds,
+ * baths, sqft) from the property record or listing named by propertyId or
+ * listingId, so the AVM tools can be called with just an ID.
+ * Caller-supplied values always win.
+ */
+async function hydrateSubjectProperty(
+  api: RentcastAPIService,
+  params: any,
+  defaultListingType: 'sale' | 'rental'
+): Promise<HydratedSubject> {
+  const hydrated = { ...params };
+  const hydratedFields: string[] = [];
+  let hydratedFrom: string | undefined;
+  let propertyRecord: any;
+
+  const missing = SUBJECT_ATTRIBUTES.filter(field => hydrated[field] === undefined || hydrated[field] === null);
+  if ((params.listingId || params.propertyId) && missing.length > 0) {
+    const listingType = params.listingType || defaultListingType;
+    const result = params.listingId
+      ? (listingType === 'rental' ? await api.getRentalListing(params.listingId) : await api.getSaleListing(params.listingId))
+      : await api.getProperty(params.propertyId);
+    hydratedFrom = params.listingId ? `${listingType} listing ${params.listingId}` : `property ${params.propertyId}`;
+
+    if (!result.success || !result.data) {
+      return {
+        params: hydrated,
+        subject: { hydratedFields },
+        failure: { message: `Error looking up ${hydratedFrom}`, result }
+      };
+    }
+
+    const record = result.data as any;
+    if (!params.listingId) propertyRecord = record;
+    missing.forEach(field => {
+      const value = field === 'address' ? record.formattedAddress : record[field];
+      if (value !== undefined && value !== null) {
+        hydrated[field] = value;
+        hydratedFields.push(field);
+      }
+    });
+  }
+
+  const attributes: Pick<SubjectPropertyOutput, typeof SUBJECT_ATTRIBUTES[number]> = Object.fromEntries(
+    SUBJECT_ATTRIBUTES
+      .filter(field => hydrated[field] !== undefined && hydrated[field] !== null)
+      .map(field => [field, hydrated[field]])
+  );
+  const subject: SubjectPropertyOutput = { ...attributes, hydratedFields };
+  if (hydratedFrom && hydratedFields.length > 0) subject.hydratedFrom = hydratedFrom;
+
+  return { params: hydrated, subject, ...(propertyRecord && { propertyRecord }) };
+}
+
+/**
+ * Note which subject attributes were looked up server-side
+ */
+function formatHydratedSubject(subject: SubjectPropertyOutput): string {
+  if (!subject.hydratedFrom) return '';
+  return `\n🔗 Filled in from ${subject.hydratedFrom}: ${subject.hydratedFields.join(', ')}`;
+}
+
+/**
+ * Format a duration in milliseconds as "1h 2m 3s"
+ */
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${hours}h ${minutes}m ${seconds}s`;
+}
+
+// ========================================
+// 📄 REPORTS (shared by tools and resources)
+// ========================================
+
+/**
+ * Markdown text plus the structured result for one entity
+ */
+interface EntityReport {
+  text: string;
+  structured: Record<string, unknown>;
+}
+
+/**
+ * Property record with its sale history timeline
+ */
+function buildPropertyReport(property: any): EntityReport {
+  const timeline = buildPropertyTimeline(property, 'property');
+  return {
+    text: formatPropertyInfo(property) + formatTimeline(timeline),
+    structured: {
+      property: normalizeProperty(property),
+      timeline
+    }
+  };
+}
+
+/**
+ * Sale or rental listing with MLS info, contacts and timeline
+ */
+function buildListingReport(raw: any, listingType: 'sale' | 'rental'): EntityReport {
+  const isRental = listingType === 'rental';
+  const listing = normalizeListingDetail(raw);
+
+  let text = `🏘️ **${isRental ? 'Rental' : 'Sale'} Listing Details**\n\n`;
+  text += `Address: ${listing.formattedAddress || 'Address not available'}`;
+  text += `\n💰 ${isRental ? 'Rent' : 'Price'}: ${listing.price != null ? `$${Number(listing.price).toLocaleString()}${isRental ? '/month' : ''}` : 'N/A'}`;
+  text += ` | Status: ${listing.status || 'N/A'}`;
+  if (listing.daysOnMarket != null) text += ` | ${listing.daysOnMarket} days on market`;
+  text += `\n🏠 ${listing.propertyType || 'Property'} | ${listing.bedrooms ?? 'N/A'} bed | ${listing.bathrooms ?? 'N/A'} bath | ${listing.squareFootage != null ? `${Number(listing.squareFootage).toLocaleString()} sqft` : 'N/A sqft'}`;
+  if (listing.yearBuilt != null) text += ` | 📅 ${listing.yearBuilt} built`;
+
+  // MLS and listing dates
+  text += `\n\n📋 **Listing Info:**`;
+  text += `\nMLS: ${listing.mlsName || 'N/A'}${listing.mlsNumber ? ` #${listing.mlsNumber}` : ''}`;
+  if (listing.listingType) text += ` | Type: ${listing.listingType}`;
+  if (listing.listedDate) text += `\nListed: ${listing.listedDate.split('T')[0]}`;
+  if (listing.removedDate) text += ` | Removed: ${listing.removedDate.split('T')[0]}`;
+
+  // Contacts
+  const contacts = formatContact('👤 Listing Agent', listing.listingAgent) +
+    formatContact('🏢 Listing Office', listing.listingOffice);
+  if (contacts) {
+    text += `\n\n📇 **Contacts:**${contacts}`;
+  }
+
+  const timeline = buildPropertyTimeline(raw, listingType);
+  text += formatTimeline(timeline);
+
+  return {
+    text,
+    structured: { listingType, listing, timeline }
+  };
+}
+
+/**
+ * Market statistics with sale and rental trends from the monthly history
+ */
+function buildMarketReport(market: any, locationLabel: string): EntityReport {
+  let text = `📊 Market Statistics for ${market.zipCode ? `ZIP: ${market.zipCode}` : locationLabel}\n`;
+
+  // Add location info
+  if (market.zipCode) {
+    text += `\n📍 Location: ZIP ${market.zipCode}`;
+  }
+  if (market.city && market.state) {
+    text += `\n🏙️ ${market.city}, ${market.state}`;
+  }
+
+  // Trends from the monthly history
+  const saleTrend = analyzeMarketTrends(market.saleData, 'sale');
+  const rentalTrend = analyzeMarketTrends(market.rentalData, 'rental');
+
+  // Format market data
+  if (market.saleData) {
+    text += formatSaleMarketData(market.saleData);
+    if (saleTrend) text += formatMarketTrends(saleTrend, false);
+  }
+
+  if (market.rentalData) {
+    text += formatRentalMarketData(market.rentalData);
+    if (rentalTrend) text += formatMarketTrends(rentalTrend, true);
+  }
+
+  return {
+    text,
+    structured: {
+      market: normalizeMarket(market),
+      ...((saleTrend || rentalTrend) && {
+        trends: {
+          ...(saleTrend && { sale: saleTrend }),
+          ...(rentalTrend && { rental: rentalTrend })
+        }
+      })
+    }
+  };
+}
+
+/**
+ * Resource contents in both renditions: structured JSON and markdown.
+ * Failed lookups throw, which the SDK returns as a JSON-RPC error.
+ */
+function createResourceResult(uri: URL, result: ApiCallResult, build: (data: any) => EntityReport | null): ReadResourceResult {
+  if (!result.success) {
+    throw new Error(`Could not read ${uri.href}: ${result.error?.message || 'Unknown error'}`);
+  }
+  const report = result.data ? build(result.data) : null;
+  if (!report) {
+    throw new Error(`No data found for ${uri.href}`);
+  }
+  return {
+    contents: [
+      { uri: uri.href, mimeType: 'application/json', text: JSON.stringify(report.structured, null, 2) },
+      { uri: uri.href, mimeType: 'text/markdown', text: report.text }
+    ]
+  };
+}
+
+/**
+ * Single user message for a prompt
+ */
+function createPromptResult(description: string, text: string): GetPromptResult {
+  return {
+    description,
+    messages: [{ role: 'user', content: { type: 'text', text } }]
+  };
+}
+
+// ========================================
+// 🚀 MCP SERVER SETUP
+// ========================================
+
+/**
+ * Create a Rentcast MCP server with all tools, resources and prompts registered.
+ * Every connection (stdio, or one HTTP/SSE session) gets its own instance,
+ * backed by the given Rentcast client (the default instance for stdio).
+ */
+export function createServer(api: RentcastAPIService = rentcastAPI): McpServer {
+  const server = new McpServer({
+    name: "rentcast-mcp",
+    version: "1.0.0"
+  });
+
+  // ========================================
+  // 🛠️ MCP TOOLS (Rentcast API Endpoints)
+  // ========================================
+
+  // Tool 1: Search Properties
+  server.registerTool(
+    "search_properties",
+    {
+      description: "Search property records (default: 15, max: 50 for free tier) by address, city/state/ZIP or latitude/longitude + radius, filtered by property type, bedrooms, bathrooms, square footage, lot size, year built, last sale date and last sale price. Numeric filters accept ranges like '2:4', '1500:*' or '*:2000'. Set maxResults to collect several pages in one call, and pass nextCursor back as cursor to continue. Note: Price data may not be available for all properties.",
+      inputSchema: PropertySearchSchema.shape,
+      outputSchema: PropertyListOutputSchema.shape,
+    },
+    traceTool("search_properties", async (params) => {
+      try {
+        const filterError = validateLocationFilters(params);
+        if (filterError) {
+          return createErrorResponse(`Invalid search filters: ${filterError}`);
+        }
+
+        const paged = await runPagedSearch("properties", params, (pageParams) => api.searchProperties(pageParams));
+
+        if (paged.failure && paged.items.length === 0) {
+          return createApiErrorResponse("Error searching properties", paged.failure);
+        }
+
+        const properties = paged.items;
+        const summary = `Found ${properties.length} properties${paged.pagesFetched > 1 ? ` across ${paged.pagesFetched} pages` : ''}`;
+
+        // Process each property individually based on actual API structure
+        const propertyDetails = properties.slice(0, 10).map(prop => {
+          return formatPropertyInfo(prop);
+        }).join('\n\n');
+
+        const resultText = `${summary}\n\n${propertyDetails}${formatPaginationFooter(paged, 10, 'properties')}`;
+        return createSuccessResponse(resultText, {
+          count: properties.length,
+          properties: properties.map(normalizeProperty),
+          pagesFetched: paged.pagesFetched,
+          nextCursor: paged.nextCursor
+        });
+
+            } catch (error) {
+          return createExceptionResponse("Failed to search properties", error);
+        }
+    })
+  );
+
+  // Tool 2: Get Random Properties
+  server.registerTool(
+    "get_random_properties",
+    {
+      description: "Get random properties with comprehensive info (default: 10, max: 50 for free tier) for market analysis including price history, lot size, and year built",
+      inputSchema: RandomPropertiesSchema.shape,
+      outputSchema: PropertyListOutputSchema.shape,
+    },
+    traceTool("get_random_properties", async (params) => {
+      try {
+        const searchParams = buildPropertySearchParams(params);
+
+        const result = await api.getRandomProperties(searchParams);
+
+        if (!result.success) {
+          return createApiErrorResponse("Error getting random properties", result);
+        }
+
+        const properties = result.data as any[];
+
+
+
+        const summary = `Retrieved ${properties.length} random properties`;
+
+        // Process each property individually
+        const sampleProperties = properties.slice(0, 5).map(prop => {
+
+          return formatPropertyInfo(prop);
+        }).join('\n\n');
+
+        const resultText = `${summary}\n\nSample Properties:\n\n${sampleProperties}${properties.length > 5 ? '\n\n... and more properties available' : ''}`;
+        return createSuccessResponse(resultText, {
+          count: properties.length,
+          properties: properties.map(normalizeProperty)
+        });
+
+            } catch (error) {
+          return createExceptionResponse("Failed to get random properties", error);
+        }
+    })
+  );
+
+  // Tool 3: Market Analysis
+  server.registerTool(
+    "analyze_market",
+    {
+      description: "Get comprehensive market statistics and trends for specific locations, including month-over-month and year-over-year changes in median price, rent, price/sqft, days on market and inventory over a configurable history window",
+      inputSchema: MarketAnalysisSchema.shape,
+      outputSchema: MarketAnalysisOutputSchema.shape,
+    },
+    traceTool("analyze_market", async (params) => {
+      try {
+        const searchParams: any = { dataType: params.dataType };
+        if (params.zipCode) searchParams.zipCode = params.zipCode;
+        if (params.city) searchParams.city = params.city;
+        if (params.state) searchParams.state = params.state;
+        if (params.historyRange !== undefined) searchParams.historyRange = params.historyRange;
+
+              const result = await api.getMarketData(searchParams);
+
+        if (!result.success) {
+          return createApiErrorResponse("Error analyzing market", result);
+        }
+
+        // Simplified market data handling - focus on the structure we know API returns
+        const market = Array.isArray(result.data) ? result.data[0] : result.data;
+
+
+
+          if (!market || (!market.saleData && !market.rentalData)) {
+            return createErrorResponse("No market data found for the specified location");
+          }
+
+          const report = buildMarketReport(market, params.city ? `${params.city}, ${params.state}` : 'Location');
+          return createSuccessResponse(report.text, report.structured);
+
+            } catch (error) {
+          return createExceptionResponse("Failed to analyze market", error);
+        }
+    })
+  );
+
+  // Tool 4: Property Valuation (AVM)
+  server.registerTool(
+    "get_property_value",
+    {
+      description: "Get automated property value estimates with comparable properties",
+      inputSchema: AVMSchema.shape,
+      outputSchema: ValueEstimateOutputSchema.shape,
+    },
+    traceTool("get_property_value", async (params: z.infer<typeof AVMSchema>) => {
+      try {
+        const hydrated = await hydrateSubjectProperty(api, params, 'sale');
+        if (hydrated.failure) {
+          return createApiErrorResponse(hydrated.failure.message, hydrated.failure.result);
+        }
+        const searchParams = buildAVMSearchParams(hydrated.params);
+
+        // Additional validation to ensure we have required parameters
+        if (!searchParams.propertyId && !searchParams.address && (searchParams.latitude === undefined || searchParams.longitude === undefined)) {
+          return createErrorResponse(
+            "❌ **Missing Required Parameters for Property Valuation**\n\n" +
+            "💡 **You must provide ONE of the following options:**\n\n" +
+            "**Option 1: Property Address**\n" +
+            "• `address`: Full property address (e.g., '1011 W 23rd St, Apt 101, Austin, TX 78705')\n\n" +
+            "**Option 2: GPS Coordinates**\n" +
+            "• `latitude`: Property latitude (e.g., 30.287007)\n" +
+            "• `longitude`: Property longitude (e.g., -97.748941)\n\n" +
+            "**Option 3: Property ID**\n" +
+            "• `propertyId`: Unique identifier from Rentcast database\n\n" +
+            "**Option 4: Listing ID**\n" +
+            "• `listingId` (+ `listingType`: sale or rental): ID from get_sale_listings or get_rental_listings\n\n" +
+            "🔍 **Optional Parameters (improve accuracy):**\n" +
+            "• `propertyType`: Apartment, House, Condo, etc.\n" +
+            "• `bedrooms`: Number of bedrooms\n" +
+            "• `bathrooms`: Number of bathrooms\n" +
+            "• `squareFootage`: Property size in sq ft"
+          );
+        }
+
+        const result = await api.getPropertyValue(searchParams);
+
+        if (!result.success) {
+          return createApiErrorResponse("Error getting property value", result);
+        }
+
+        const avm = result.data as any;
+        if (!avm) {
+          return createErrorResponse("No property value data found");
+        }
+
+
+
+        let resultText = `💰 Estimated Value: ${avm.price ? `$${Number(avm.price).toLocaleString()}` : 'N/A'}`;
+        const range = avm.priceRangeLow && avm.priceRangeHigh 
+          ? ` (Range: $${Number(avm.priceRangeLow).toLocaleString()} - $${Number(avm.priceRangeHigh).toLocaleString()})`
+          : '';
+        resultText += `${range}`;
+        resultText += formatHydratedSubject(hydrated.subject);
+
+        const settings = describeAVMSettings(searchParams);
+        resultText += formatAVMSettings(settings);
+
+        const comparables = sortComparables((avm.comparables || []).map(normalizeComparable), params.sortComparablesBy);
+        const comparableSummary = summarizeComparables(
+          comparables,
+          hydrated.subject.squareFootage ?? avm.subjectProperty?.squareFootage
+        );
+        resultText += formatComparables(comparables, comparableSummary, {
+          isRental: false,
+          limit: params.comparablesLimit,
+          sortBy: params.sortComparablesBy
+        });
+
+        return createSuccessResponse(resultText, {
+          price: avm.price,
+          priceRangeLow: avm.priceRangeLow,
+          priceRangeHigh: avm.priceRangeHigh,
+          comparables,
+          comparableSummary,
+          subject: hydrated.subject,
+          settings
+        });
+
+            } catch (error) {
+          return createExceptionResponse("Failed to get property value", error);
+        }
+    })
+  );
+
+  // Tool 5: Rent Estimates
+  server.registerTool(
+    "get_rent_estimates",
+    {
+      description: "Get long-term rent estimates with comparable rental properties. This tool helps you estimate monthly rental prices for properties based on location, property characteristics, and market data.",
+      inputSchema: RentEstimateSchema.shape,
+      outputSchema: RentEstimateOutputSchema.shape,
+    },
+    traceTool("get_rent_estimates", async (params: z.infer<typeof RentEstimateSchema>) => {
+      try {
+        // Validate parameters using Zod schema
+        const hydrated = await hydrateSubjectProperty(api, RentEstimateSchema.parse(params), 'rental');
+        if (hydrated.failure) {
+          return createApiErrorResponse(hydrated.failure.message, hydrated.failure.result);
+        }
+        const validatedParams = hydrated.params;
+
+        // Build search parameters for rent estimates
+        const searchParams = buildAVMSearchParams(validatedParams);
+
+        // Additional validation to ensure we have required parameters
+        if (!searchParams.propertyId && !searchParams.address && (searchParams.latitude === undefined || searchParams.longitude === undefined)) {
+          return createErrorResponse(
+            "❌ **Missing Required Parameters for Rent Estimates**\n\n" +
+            "💡 **You must provide ONE of the following options:**\n\n" +
+            "**Option 1: Property Address**\n" +
+            "• `address`: Full property address (e.g., '1011 W 23rd St, Apt 101, Austin, TX 78705')\n\n" +
+            "**Option 2: GPS Coordinates**\n" +
+            "• `latitude`: Property latitude (e.g., 30.287007)\n" +
+            "• `longitude`: Property longitude (e.g., -97.748941)\n\n" +
+            "**Option 3: Property ID**\n" +
+            "• `propertyId`: Unique identifier from Rentcast database\n\n" +
+            "**Option 4: Listing ID**\n" +
+            "• `listingId` (+ `listingType`: rental or sale): ID from get_rental_listings or get_sale_listings\n\n" +
+            "🔍 **Optional Parameters (improve accuracy):**\n" +
+            "• `propertyType`: Apartment, House, Condo, etc.\n" +
+            "• `bedrooms`: Number of bedrooms\n" +
+            "• `bathrooms`: Number of bathrooms\n" +
+            "• `squareFootage`: Property size in sq ft\n\n" +
+            "📋 **Example Usage:**\n" +
+            "```json\n" +
+            "{\n" +
+            '  "address": "1011 W 23rd St, Apt 101, Austin, TX 78705",\n' +
+            '  "propertyType": "Apartment",\n' +
+            '  "bedrooms": 1,\n' +
+            '  "bathrooms": 1,\n' +
+            '  "squareFootage": 450\n' +
+            "}\n" +
+            "```"
+          );
+        }
+
+        const result = await api.getRentEstimates(searchParams);
+
+        if (!result.success) {
+          return createApiErrorResponse("Error getting rent estimates", result);
+        }
+
+        const rentData = result.data as RentEstimateResponse;
+        if (!rentData) {
+          return createErrorResponse("No rent estimate data found");
+        }
+
+
+
+        // Format the response
+        let resultText = `🏠 **Rent Estimate Results**\n\n`;
+
+        // Add usage tips
+        resultText += `💡 **Tool Usage Tips:**\n`;
+        resultText += `• Use this tool to estimate monthly rental prices for properties\n`;
+        resultText += `• Provide more details (bedrooms, bathrooms, square footage) for better accuracy\n`;
+        resultText += `• Results include comparable properties for market analysis\n\n`;
+
+        // Property identification
+        if (rentData.address) {
+          resultText += `📍 **Property:** ${rentData.address}\n`;
+        }
+        if (rentData.propertyType) {
+          resultText += `🏠 **Type:** ${rentData.propertyType}\n`;
+        }
+        if (rentData.bedrooms !== undefined) {
+          resultText += `🛏️ **Bedrooms:** ${rentData.bedrooms}\n`;
+        }
+        if (rentData.bathrooms !== undefined) {
+          resultText += `🚿 **Bathrooms:** ${rentData.bathrooms}\n`;
+        }
+        if (rentData.squareFootage) {
+          resultText += `📐 **Square Footage:** ${rentData.squareFootage.toLocaleString()} sqft\n`;
+        }
+        const hydratedNote = formatHydratedSubject(hydrated.subject);
+        if (hydratedNote) {
+          resultText += `${hydratedNote.trim()}\n`;
+        }
+        const settings = describeAVMSettings(searchParams);
+        resultText += `${formatAVMSettings(settings).trim()}\n`;
+
+        resultText += `\n💰 **Estimated Monthly Rent:** `;
+        if (rentData.rent) {
+          resultText += `$${Number(rentData.rent).toLocaleString()}/month`;
+
+          // Add rent range if available
+          if (rentData.rentRangeLow && rentData.rentRangeHigh) {
+            resultText += `\n📊 **Rent Range:** $${Number(rentData.rentRangeLow).toLocaleString()} - $${Number(rentData.rentRangeHigh).toLocaleString()}/month`;
+          }
+        } else {
+          resultText += `N/A`;
+        }
+
+        // Add comparables if available
+        const comparables = sortComparables((rentData.comparables || []).map(normalizeComparable), validatedParams.sortComparablesBy);
+        const comparableSummary = summarizeComparables(
+          comparables,
+          hydrated.subject.squareFootage ?? rentData.squareFootage
+        );
+        resultText += formatComparables(comparables, comparableSummary, {
+          isRental: true,
+          limit: validatedParams.comparablesLimit,
+          sortBy: validatedParams.sortComparablesBy
+        });
+
+        // Add helpful footer
+        resultText += `\n\n🔍 **Need More Data?**\n`;
+        resultText += `• Use \`get_property_details\` to get comprehensive property information\n`;
+        resultText += `• Use \`get_rental_listings\` to see actual rental listings in the area\n`;
+        resultText += `• Use \`analyze_market\` to understand rental market trends\n\n`;
+
+
+        return createSuccessResponse(resultText, {
+          rent: rentData.rent,
+          rentRangeLow: rentData.rentRangeLow,
+          rentRangeHigh: rentData.rentRangeHigh,
+          comparables,
+          comparableSummary,
+          subject: hydrated.subject,
+          settings
+        });
+
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          const errorDetails = error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ');
+          return createErrorResponse(`Invalid parameters: ${errorDetails}`);
+        }
+        return createExceptionResponse("Failed to get rent estimates", error);
+      }
+    })
+  );
+
+  // Tool 6: Sale Listings
+  server.registerTool(
+    "get_sale_listings",
+    {
+      description: "Get sale listings with comprehensive property information. Search by city/state/ZIP or address/latitude+longitude with radius, and filter by property type, bedrooms, bathrooms, price, status (Active/Inactive) and days since listed. Numeric filters accept ranges like '2:4' or '*:450000'. Set maxResults to collect several pages in one call, and pass nextCursor back as cursor to continue.",
+      inputSchema: ListingSearchSchema.shape,
+      outputSchema: ListingListOutputSchema.shape,
+    },
+    traceTool("get_sale_listings", async (params) => {
+      try {
+        const filterError = validateLocationFilters(params);
+        if (filterError) {
+          return createErrorResponse(`Invalid search filters: ${filterError}`);
+        }
+
+        const paged = await runPagedSearch("listings/sale", params, (pageParams) => api.getSaleListings(pageParams));
+
+        if (paged.failure && paged.items.length === 0) {
+          return createApiErrorResponse("Error getting sale listings", paged.failure);
+        }
+
+        const listings = paged.items;
+        const summary = `Found ${listings.length} sale listings${paged.pagesFetched > 1 ? ` across ${paged.pagesFetched} pages` : ''}`;
+
+        const listingDetails = listings.slice(0, 8).map(listing => {
+
+          // Use actual Rentcast API data structure
+          const propertyInfo = formatPropertyInfo(listing);
+
+          // The server fills in the subject from the listing ID
+          const nextStep = `\n💡 **Next step:** \`get_property_value\` or \`get_listing_details\` with \`listingId: "${listing.id}", listingType: "sale"\``;
+
+          return propertyInfo + nextStep;
+        }).join('\n\n');
+
+        const resultText = `${summary}\n\n${listingDetails}${formatPaginationFooter(paged, 8, 'listings')}`;
+        return createSuccessResponse(resultText, {
+          count: listings.length,
+          listings: listings.map(normalizeListing),
+          pagesFetched: paged.pagesFetched,
+          nextCursor: paged.nextCursor
+        });
+
+            } catch (error) {
+          return createExceptionResponse("Failed to get sale listings", error);
+        }
+    })
+  );
+
+  // Tool 7: Property Details (Enhanced)
+  server.registerTool(
+    "get_property_details",
+    {
+      description: "Get detailed property information and a chronological sale history timeline with price changes. Pass the same ID as propertyId to get_property_value or get_rent_estimates for estimates.",
+      inputSchema: PropertyDetailSchema.shape,
+      outputSchema: PropertyDetailOutputSchema.shape,
+    },
+    traceTool("get_property_details", async (params) => {
+      try {
+        // This tool helps prepare property data for other tools
+        const result = await api.getProperty(params.id);
+
+        if (!result.success) {
+          return createApiErrorResponse("Error getting property details", result);
+        }
+
+        const property = result.data as any;
+        if (!property) {
+          return createErrorResponse("No property details found");
+        }
+
+
+
+        const nextSteps = `\n\n💡 **Next steps:** call \`get_property_value\`, \`get_rent_estimates\` or \`analyze_investment\` with ` +
+          `\`propertyId: "${params.id}"\`; address, coordinates, type, beds, baths and square footage are filled in automatically.`;
+
+        const report = buildPropertyReport(property);
+        return createSuccessResponse(report.text + nextSteps, report.structured);
+
+            } catch (error) {
+          return createExceptionResponse("Failed to get property details", error);
+        }
+    })
+  );
+
+  // Tool 8: Rental Listings
+  server.registerTool(
+    "get_rental_listings",
+    {
+      description: "Get long-term rental listings with comprehensive property information. Search by city/state/ZIP or address/latitude+longitude with radius, and filter by property type, bedrooms, bathrooms, monthly rent (price), status (Active/Inactive) and days since listed. Set maxResults to collect several pages, and pass nextCursor back as cursor to continue. Example: 3-bed rentals under $2,500 within 2 miles → bedrooms: 3, price: '*:2500', radius: 2.",
+      inputSchema: ListingSearchSchema.shape,
+      outputSchema: ListingListOutputSchema.shape,
+    },
+    traceTool("get_rental_listings", async (params) => {
+      try {
+        const filterError = validateLocationFilters(params);
+        if (filterError) {
+          return createErrorResponse(`Invalid search filters: ${filterError}`);
+        }
+
+        const paged = await runPagedSearch("listings/rental/long-term", params, (pageParams) => api.getRentalListings(pageParams));
+
+        if (paged.failure && paged.items.length === 0) {
+          return createApiErrorResponse("Error getting rental listings", paged.failure);
+        }
+
+        const listings = paged.items;
+        const summary = `Found ${listings.length} rental listings${paged.pagesFetched > 1 ? ` across ${paged.pagesFetched} pages` : ''}`;
+
+        const listingDetails = listings.slice(0, 8).map(listing => {
+
+          // Use actual Rentcast API data structure
+          const propertyInfo = formatPropertyInfo(listing);
+
+          // The server fills in the subject from the listing ID
+          const nextStep = `\n💡 **Next step:** \`get_rent_estimates\` or \`get_listing_details\` with \`listingId: "${listing.id}", listingType: "rental"\``;
+
+          return propertyInfo + nextStep;
+        }).join('\n\n');
+
+        const resultText = `${summary}\n\n${listingDetails}${formatPaginationFooter(paged, 8, 'listings')}`;
+        return createSuccessResponse(resultText, {
+          count: listings.length,
+          listings: listings.map(normalizeListing),
+          pagesFetched: paged.pagesFetched,
+          nextCursor: paged.nextCursor
+        });
+
+      } catch (error) {
+        return createExceptionResponse("Failed to get rental listings", error);
+      }
+    })
+  );
+
+  // Tool 8: Property Details (Enhanced - already defined above)
+  // This tool was moved to Tool 7 above for better organization
+
+  // Tool 9: Server Status
+  server.registerTool(
+    "get_server_status",
+    {
+      description: "Get server status: remaining API call budget, per-endpoint call counts, errors, latency, uptime and effective configuration",
+      outputSchema: ServerStatusOutputSchema.shape,
+    },
+    traceTool("get_server_status", async () => {
+      try {
+        const budget = api.getBudgetStatus();
+        const usage = api.getUsageStats();
+        const serverConfig = { ...config.getRedactedConfig(), rentcastApiKey: api.getRedactedApiKey() };
+        const uptimeMs = api.getUptimeMs();
+
+        let resultText = `🖥️ **Rentcast MCP Server Status**\n`;
+        resultText += `\n⏱️ Uptime: ${formatDuration(uptimeMs)}`;
+
+        // Budget and rate limiting
+        resultText += `\n\n📊 **API Budget:**`;
+        resultText += `\n• Calls Made: ${budget.callsMade}/${budget.maxCalls}`;
+        resultText += `\n• Remaining Budget: ${budget.remainingCalls}`;
+        resultText += budget.rateLimitingEnabled
+          ? `\n• Rate Limit: ${budget.ratePerMinute}/min (${budget.availableTokens} available now)`
+          : `\n• Rate Limit: disabled`;
+
+        // Per-endpoint statistics
+        resultText += `\n\n🔗 **Endpoints:**`;
+        Object.keys(RENTCAST_ENDPOINTS).forEach(key => {
+          const stats = usage[key];
+          if (!stats) {
+            resultText += `\n• ${key}: 0 calls`;
+            return;
+          }
+          resultText += `\n• ${key}: ${stats.calls} calls | ${stats.errors} errors | avg ${stats.averageLatencyMs}ms`;
+          if (stats.cacheHits > 0) resultText += ` | ${stats.cacheHits} cache hits`;
+          if (stats.blocked > 0) resultText += ` | ${stats.blocked} blocked`;
+          if (stats.lastError) {
+            resultText += `\n   ⚠️ Last error (${new Date(stats.lastError.timestamp).toISOString()}): ${stats.lastError.message}`;
+          }
+        });
+
+        // Effective configuration
+        resultText += `\n\n⚙️ **Configuration:**`;
+        Object.entries(serverConfig).forEach(([key, value]) => {
+          resultText += `\n• ${key}: ${value}`;
+        });
+
+        return createSuccessResponse(resultText, {
+          uptimeMs,
+          budget,
+          endpoints: Object.fromEntries(
+            Object.entries(usage).map(([key, { totalLatencyMs, ...stats }]) => [key, stats])
+          ),
+          config: serverConfig
+        });
+
+      } catch (error) {
+        return createExceptionResponse("Failed to get server status", error);
+      }
+    })
+  );
+
+  // Tool 10: Listing Details
+  server.registerTool(
+    "get_listing_details",
+    {
+      description: "Get full details for a sale or long-term rental listing by ID: price/rent, status, MLS info, listing agent and office contacts, the listing history, and a chronological timeline of listings, removals and price changes with deltas. Use the IDs returned by get_sale_listings or get_rental_listings.",
+      inputSchema: ListingDetailSchema.shape,
+      outputSchema: ListingDetailOutputSchema.shape,
+    },
+    traceTool("get_listing_details", async (params) => {
+      try {
+        const isRental = params.listingType === 'rental';
+        const result = isRental
+          ? await api.getRentalListing(params.id)
+          : await api.getSaleListing(params.id);
+
+        if (!result.success) {
+          return createApiErrorResponse(`Error getting ${params.listingType} listing details`, result);
+        }
+
+        if (!result.data) {
+          return createErrorResponse("No listing details found");
+        }
+
+        const report = buildListingReport(result.data, params.listingType);
+        let resultText = report.text;
+        resultText += `\n\n💡 **Next steps:** call \`${isRental ? 'get_rent_estimates' : 'get_property_value'}\` with ` +
+          `\`listingId: "${params.id}", listingType: "${params.listingType}"\` to compare this listing against the AVM estimate.`;
+
+        return createSuccessResponse(resultText, report.structured);
+
+      } catch (error) {
+        return createExceptionResponse("Failed to get listing details", error);
+      }
+    })
+  );
+
+  // Tool 11: Market Comparison
+  server.registerTool(
+    "compare_markets",
+    {
+      description: "Compare 2-20 ZIP code markets side by side and rank them by gross rent yield, median price, median rent, price/sqft, days on market or listing inventory. Uses one API call per ZIP code (cached results are free).",
+      inputSchema: CompareMarketsSchema.shape,
+      outputSchema: MarketComparisonOutputSchema.shape,
+    },
+    traceTool("compare_markets", async (params) => {
+      try {
+        const zipCodes = Array.from(new Set(params.zipCodes));
+
+        const results = await mapWithConcurrency(zipCodes, config.maxConcurrentRequests, async (zipCode) => {
+          const result = await api.getMarketData({ zipCode, dataType: 'All' });
+          if (!result.success) {
+            return { zipCode, error: result.error?.message || 'Unknown error' };
+          }
+          const market = Array.isArray(result.data) ? result.data[0] : result.data;
+          if (!market || (!market.saleData && !market.rentalData)) {
+            return { zipCode, error: 'No market data found' };
+          }
+          return { zipCode, row: summarizeMarketForComparison(zipCode, market) };
+        });
+
+        const rows = results.flatMap(r => 'row' in r ? [r.row] : []);
+        const failures = results.flatMap(r => 'error' in r ? [{ zipCode: r.zipCode, error: r.error }] : []);
+
+        if (rows.length === 0) {
+          return createErrorResponse(
+            "No market data found for any of the requested ZIP codes",
+            failures.map(f => `${f.zipCode} (${f.error})`).join(', ')
+          );
+        }
+
+        const markets = rankMarkets(rows, params.sortBy, params.order);
+
+        let resultText = `📊 **Market Comparison (${markets.length} ZIP codes)**\n`;
+        resultText += `Ranked by ${params.sortBy} (${params.order === 'desc' ? 'highest' : 'lowest'} first)\n`;
+        resultText += formatMarketComparison(markets);
+        resultText += `\n\n💡 Gross yield = annual median rent / median sale price. Use \`analyze_market\` on a ZIP for trends.`;
+
+        if (failures.length > 0) {
+          resultText += `\n\n⚠️ **Not compared (${failures.length}):**`;
+          failures.forEach(f => {
+            resultText += `\n• ${f.zipCode}: ${f.error}`;
+          });
+        }
+
+        return createSuccessResponse(resultText, {
+          count: markets.length,
+          sortBy: params.sortBy,
+          order: params.order,
+          markets,
+          failures
+        });
+
+      } catch (error) {
+        return createExceptionResponse("Failed to compare markets", error);
+      }
+    })
+  );
+
+  // Tool 12: Investment Analysis
+  server.registerTool(
+    "analyze_investment",
+    {
+      description: "Analyze a rental investment in one call: fetches the AVM value and rent estimates (plus the property record for HOA and taxes), applies purchase and operating assumptions, and returns cap rate, cash-on-cash return, monthly cash flow, gross rent multiplier (GRM) and debt service coverage ratio (DSCR). Uses up to 4 API calls; each AVM is skipped when purchasePrice or monthlyRent is given.",
+      inputSchema: InvestmentAnalysisSchema.shape,
+      outputSchema: InvestmentAnalysisOutputSchema.shape,
+    },
+    traceTool("analyze_investment", async (params) => {
+      try {
+        const hydrated = await hydrateSubjectProperty(api, params, 'sale');
+        if (hydrated.failure) {
+          return createApiErrorResponse(hydrated.failure.message, hydrated.failure.result);
+        }
+        const searchParams = buildAVMSearchParams(hydrated.params);
+        if (!searchParams.propertyId && !searchParams.address && (searchParams.latitude === undefined || searchParams.longitude === undefined)) {
+          return createErrorResponse(
+            "❌ **Missing Required Parameters for Investment Analysis**\n\n" +
+            "💡 Provide `address`, `latitude` + `longitude`, `propertyId` or `listingId`, plus any purchase assumptions to override the defaults."
+          );
+        }
+
+        // HOA and taxes come from the property record unless given explicitly;
+        // a record already fetched while hydrating the subject is reused
+        const needsRecord = params.monthlyHoa === undefined || params.annualPropertyTax === undefined;
+        const lookupRecord = async (): Promise<ApiCallResult | null> => {
+          if (!needsRecord || hydrated.propertyRecord) return null;
+          if (params.propertyId) return api.getProperty(params.propertyId);
+          if (hydrated.params.address) return api.searchProperties({ address: hydrated.params.address, limit: 1 });
+          return null;
+        };
+
+        // An AVM is only called when its figure was not given
+        const [valueResult, rentResult, recordResult] = await Promise.all([
+          params.purchasePrice === undefined ? api.getPropertyValue(searchParams) : null,
+          params.monthlyRent === undefined ? api.getRentEstimates(searchParams) : null,
+          lookupRecord()
+        ]);
+
+        const avm = valueResult?.success ? valueResult.data as any : null;
+        const rentData = rentResult?.success ? rentResult.data as RentEstimateResponse : null;
+        const record = hydrated.propertyRecord ?? (recordResult?.success
+          ? (Array.isArray(recordResult.data) ? recordResult.data[0] : recordResult.data)
+          : null);
+
+        const warnings: string[] = [];
+        const purchasePrice = params.purchasePrice ?? avm?.price;
+        if (!purchasePrice) {
+          return !valueResult || valueResult.success
+            ? createErrorResponse("No value estimate found; provide purchasePrice")
+            : createApiErrorResponse("Error getting property value (provide purchasePrice to skip it)", valueResult);
+        }
+        const monthlyRent = params.monthlyRent ?? rentData?.rent;
+        if (!monthlyRent) {
+          return !rentResult || rentResult.success
+            ? createErrorResponse("No rent estimate found; provide monthlyRent")
+            : createApiErrorResponse("Error getting rent estimates (provide monthlyRent to skip it)", rentResult);
+        }
+        if (recordResult && !recordResult.success) {
+          warnings.push(`Property record unavailable, HOA/tax defaults used: ${recordResult.error?.message}`);
+        }
+
+        const sources: Record<string, string> = {
+          purchasePrice: params.purchasePrice !== undefined ? 'input' : 'avm',
+          monthlyRent: params.monthlyRent !== undefined ? 'input' : 'avm'
+        };
+
+        let annualPropertyTax = params.annualPropertyTax;
+        sources.annualPropertyTax = 'input';
+        if (annualPropertyTax === undefined) {
+          annualPropertyTax = latestPropertyTax(record?.propertyTaxes);
+          sources.annualPropertyTax = 'property record';
+        }
+        if (annualPropertyTax === undefined) {
+          annualPropertyTax = purchasePrice * (params.propertyTaxRate / 100);
+          sources.annualPropertyTax = `default (${params.propertyTaxRate}% of price)`;
+        }
+
+        const recordHoa: number | undefined = record?.hoa?.fee;
+        const monthlyHoa = params.monthlyHoa ?? recordHoa ?? 0;
+        sources.monthlyHoa = params.monthlyHoa !== undefined
+          ? 'input'
+          : recordHoa !== undefined ? 'property record' : 'default (none)';
+
+        const annualInsurance = params.annualInsurance ?? purchasePrice * 0.005;
+        sources.annualInsurance = params.annualInsurance !== undefined ? 'input' : 'default (0.5% of price)';
+
+        const assumptions: InvestmentAssumptions = {
+          purchasePrice,
+          monthlyRent,
+          downPaymentPercent: params.downPaymentPercent,
+          interestRate: params.interestRate,
+          loanTermYears: params.loanTermYears,
+          closingCostPercent: params.closingCostPercent,
+          annualPropertyTax: Math.round(annualPropertyTax * 100) / 100,
+          annualInsurance: Math.round(annualInsurance * 100) / 100,
+          monthlyHoa,
+          vacancyRate: params.vacancyRate,
+          managementRate: params.managementRate,
+          maintenanceRate: params.maintenanceRate
+        };
+        const { annual, financing, metrics } = analyzeInvestment(assumptions);
+
+        if (avm?.price && purchasePrice > avm.price * 1.05) {
+          warnings.push(`Purchase price is ${(((purchasePrice / avm.price) - 1) * 100).toFixed(1)}% above the AVM value estimate`);
+        }
+        if (metrics.monthlyCashFlow < 0) {
+          warnings.push('Negative cash flow at these assumptions');
+        }
+        if (metrics.dscr != null && metrics.dscr < 1.25) {
+          warnings.push(`DSCR ${metrics.dscr} is below 1.25, the minimum many lenders require`);
+        }
+
+        const money = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(Math.round(value)).toLocaleString()}`;
+        const pct = (value?: number | null) => value != null ? `${value.toFixed(2)}%` : 'N/A';
+
+        let resultText = `📈 **Rental Investment Analysis**\n`;
+        if (record?.formattedAddress || hydrated.params.address) {
+          resultText += `\n📍 ${record?.formattedAddress || hydrated.params.address}`;
+        }
+        resultText += `\n💰 Purchase Price: ${money(purchasePrice)} (${sources.purchasePrice})`;
+        if (avm?.price) resultText += ` | AVM Value: ${money(avm.price)}`;
+        resultText += `\n🏠 Monthly Rent: ${money(monthlyRent)} (${sources.monthlyRent})`;
+        if (rentData?.rent) resultText += ` | AVM Rent: ${money(rentData.rent)}`;
+
+        resultText += `\n\n📊 **Returns:**`;
+        resultText += `\n• Cap Rate: ${pct(metrics.capRate)}`;
+        resultText += `\n• Cash-on-Cash Return: ${pct(metrics.cashOnCashReturn)}`;
+        resultText += `\n• Monthly Cash Flow: ${money(metrics.monthlyCashFlow)}`;
+        resultText += `\n• Gross Rent Multiplier: ${metrics.grossRentMultiplier ?? 'N/A'}`;
+        resultText += `\n• DSCR: ${metrics.dscr ?? 'N/A (no loan)'}`;
+
+        resultText += `\n\n🧾 **Annual Income & Expenses:**`;
+        resultText += `\n• Gross Rent: ${money(annual.grossRent)} - Vacancy (${assumptions.vacancyRate}%): ${money(annual.vacancyLoss)}`;
+        resultText += `\n• Operating Expenses: ${money(annual.operatingExpenses)}` +
+          ` (taxes ${money(assumptions.annualPropertyTax)} [${sources.annualPropertyTax}], insurance ${money(assumptions.annualInsurance)},` +
+          ` HOA ${money(assumptions.monthlyHoa * 12)} [${sources.monthlyHoa}], management ${assumptions.managementRate}%, maintenance ${assumptions.maintenanceRate}%)`;
+        resultText += `\n• Net Operating Income: ${money(annual.netOperatingIncome)}`;
+        resultText += `\n• Debt Service: ${money(annual.debtService)}`;
+        resultText += `\n• Cash Flow: ${money(annual.cashFlow)}`;
+
+        resultText += `\n\n🏦 **Financing:**`;
+        resultText += `\n• Down Payment (${assumptions.downPaymentPercent}%): ${money(financing.downPayment)} + Closing Costs (${assumptions.closingCostPercent}%): ${money(financing.closingCosts)} = ${money(financing.totalCashInvested)} invested`;
+        resultText += financing.loanAmount > 0
+          ? `\n• Loan: ${money(financing.loanAmount)} at ${assumptions.interestRate}% for ${assumptions.loanTermYears} years = ${money(financing.monthlyMortgagePayment)}/month`
+          : `\n• No loan (all cash)`;
+
+        if (warnings.length > 0) {
+          resultText += `\n\n⚠️ **Warnings:**`;
+          warnings.forEach(warning => {
+            resultText += `\n• ${warning}`;
+          });
+        }
+
+        return createSuccessResponse(resultText, {
+          estimates: {
+            value: avm?.price,
+            valueRangeLow: avm?.priceRangeLow,
+            valueRangeHigh: avm?.priceRangeHigh,
+            rent: rentData?.rent,
+            rentRangeLow: rentData?.rentRangeLow,
+            rentRangeHigh: rentData?.rentRangeHigh
+          },
+          assumptions,
+          sources,
+          annual,
+          financing,
+          metrics,
+          warnings
+        });
+
+      } catch (error) {
+        return createExceptionResponse("Failed to analyze investment", error);
+      }
+    })
+  );
+
+  // Tool 13: Portfolio Valuation
+  server.registerTool(
+    "value_portfolio",
+    {
+      description: "Value a portfolio of up to 500 properties in one call, from an inline list or a CSV file: runs value and/or rent AVMs per property with bounded concurrency and a per-batch API call ceiling, and returns per-property results, portfolio totals and a list of failures with reasons. Uses up to 2 API calls per property (3 when only a propertyId is given).",
+      inputSchema: BatchValuationSchema.shape,
+      outputSchema: BatchValuationOutputSchema.shape,
+    },
+    traceTool("value_portfolio", async (params) => {
+      try {
+        let properties: PortfolioProperty[] = params.properties ?? [];
+        if (params.csvPath) {
+          try {
+            properties = [...properties, ...await loadPortfolioCsv(params.csvPath, config.batchInputDir)];
+          } catch (error) {
+            return createExceptionResponse("Could not read portfolio CSV", error);
+          }
+        }
+        if (properties.length === 0) {
+          return createErrorResponse("No properties to value: provide `properties` or `csvPath`");
+        }
+        if (properties.length > 500) {
+          return createErrorResponse(`Too many properties: ${properties.length} (max 500 per batch)`);
+        }
+
+        // The batch can never spend more than what is left of the session budget
+        const requestedCeiling = params.maxApiCalls ?? config.maxBatchApiCalls;
+        const remainingCalls = api.getBudgetStatus().remainingCalls;
+        const meter = new ApiCallMeter(Math.min(requestedCeiling, remainingCalls));
+        const cappedBySession = meter.limit < requestedCeiling;
+        const ceilingReason = cappedBySession
+          ? `Session API call budget reached (${meter.limit} calls left for this batch)`
+          : `Batch API call ceiling reached (${meter.limit} calls)`;
+
+        // Reserve a slot under the batch ceiling, then charge every upstream
+        // attempt the call made (none for cache hits and blocked calls)
+        const metered = async (call: () => Promise<ApiCallResult>): Promise<ApiCallResult | null> => {
+          if (!meter.tryReserve()) return null;
+          const result = await call();
+          meter.settle(result.cached ? 0 : result.attempts ?? 0);
+          return result;
+        };
+
+        const results = await mapWithConcurrency(properties, config.maxConcurrentRequests, async (property, index) => {
+          const entry: PortfolioPropertyResultOutput = {
+            index,
+            ...(property.label && { label: property.label }),
+            ...(property.address && { address: property.address }),
+            status: 'failed',
+            errors: []
+          };
+          let subject: Record<string, any> = { ...property };
+
+          // The AVMs need an address or coordinates; look them up from the record
+          if (property.propertyId && !property.address && (property.latitude === undefined || property.longitude === undefined)) {
+            const lookup = await metered(() => api.getProperty(property.propertyId!));
+            if (!lookup) {
+              entry.errors.push(ceilingReason);
+              return entry;
+            }
+            if (!lookup.success || !lookup.data) {
+              entry.errors.push(`Property lookup failed: ${lookup.error?.message || 'no record found'}`);
+              return entry;
+            }
+            const record = lookup.data as any;
+            SUBJECT_ATTRIBUTES.forEach(field => {
+              const value = field === 'address' ? record.formattedAddress : record[field];
+              if (subject[field] === undefined && value !== undefined && value !== null) subject[field] = value;
+            });
+            if (subject.address) entry.address = subject.address;
+          }
+
+          const searchParams = buildAVMSearchParams(subject);
+          if (!searchParams.address && (searchParams.latitude === undefined || searchParams.longitude === undefined)) {
+            entry.errors.push('Needs an address, latitude + longitude, or propertyId');
+            return entry;
+          }
+
+          if (params.estimates !== 'rent') {
+            const result = await metered(() => api.getPropertyValue(searchParams));
+            const avm = result?.success ? result.data as any : null;
+            if (!result) {
+              entry.errors.push(`Value: ${ceilingReason}`);
+            } else if (!avm?.price) {
+              entry.errors.push(`Value: ${result.error?.message || 'no estimate returned'}`);
+            } else {
+              entry.value = avm.price;
+              if (avm.priceRangeLow != null) entry.valueRangeLow = avm.priceRangeLow;
+              if (avm.priceRangeHigh != null) entry.valueRangeHigh = avm.priceRangeHigh;
+            }
+          }
+
+          if (params.estimates !== 'value') {
+            const result = await metered(() => api.getRentEstimates(searchParams));
+            const rentData = result?.success ? result.data as RentEstimateResponse : null;
+            if (!result) {
+              entry.errors.push(`Rent: ${ceilingReason}`);
+            } else if (!rentData?.rent) {
+              entry.errors.push(`Rent: ${result.error?.message || 'no estimate returned'}`);
+            } else {
+              entry.rent = rentData.rent;
+              if (rentData.rentRangeLow != null) entry.rentRangeLow = rentData.rentRangeLow;
+              if (rentData.rentRangeHigh != null) entry.rentRangeHigh = rentData.rentRangeHigh;
+            }
+          }
+
+          if (entry.value && entry.rent) {
+            entry.grossYield = Math.round(((entry.rent * 12) / entry.value) * 10000) / 100;
+          }
+          entry.status = entry.errors.length === 0
+            ? 'ok'
+            : (entry.value != null || entry.rent != null ? 'partial' : 'failed');
+          return entry;
+        });
+
+        const totals = summarizePortfolio(results);
+        const failures = results
+          .filter(r => r.errors.length > 0)
+          .map(r => ({
+            index: r.index,
+            ...(r.label && { label: r.label }),
+            ...(r.address && { address: r.address }),
+            reason: r.errors.join('; ')
+          }));
+        const succeeded = results.filter(r => r.status === 'ok').length;
+        const partial = results.filter(r => r.status === 'partial').length;
+        const failed = results.filter(r => r.status === 'failed').length;
+
+        let resultText = `🏢 **Portfolio Valuation (${results.length} properties)**\n`;
+        resultText += `\n✅ ${succeeded} valued | ⚠️ ${partial} partial | ❌ ${failed} failed | 📡 ${meter.callsUsed}/${meter.limit} API calls`;
+        if (cappedBySession) {
+          resultText += `\n📉 Ceiling capped at the remaining session budget (${requestedCeiling} requested)`;
+        }
+        resultText += `\n\n💰 **Totals:**`;
+        if (params.estimates !== 'rent') {
+          resultText += `\n• Estimated Value: $${Math.round(totals.estimatedValue).toLocaleString()} (${totals.valuedProperties} properties)`;
+        }
+        if (params.estimates !== 'value') {
+          resultText += `\n• Monthly Rent: $${Math.round(totals.monthlyRent).toLocaleString()} (${totals.rentedProperties} properties)`;
+          resultText += ` | Annual: $${Math.round(totals.annualRent).toLocaleString()}`;
+        }
+        if (totals.grossYield != null) {
+          resultText += `\n• Gross Yield: ${totals.grossYield.toFixed(2)}%`;
+        }
+
+        resultText += `\n`;
+        resultText += formatPortfolioTable(results, 50);
+
+        if (failures.length > 0) {
+          resultText += `\n\n⚠️ **Failures (${failures.length}):**`;
+          failures.slice(0, 20).forEach(f => {
+            resultText += `\n• #${f.index + 1}${f.label ? ` ${f.label}` : ''}${f.address ? ` (${f.address})` : ''}: ${f.reason}`;
+          });
+          if (failures.length > 20) {
+            resultText += `\n… ${failures.length - 20} more in the structured output`;
+          }
+        }
+
+        return createSuccessResponse(resultText, {
+          count: results.length,
+          succeeded,
+          partial,
+          failed,
+          apiCallsUsed: meter.callsUsed,
+          apiCallCeiling: meter.limit,
+          requestedApiCallCeiling: requestedCeiling,
+          totals,
+          properties: results,
+          failures
+        });
+
+      } catch (error) {
+        return createExceptionResponse("Failed to value portfolio", error);
+      }
+    })
+  );
+
+  // ========================================
+  // 📚 MCP RESOURCES (property, listing and market snapshots)
+  // ========================================
+
+  // Listing shows what this session has fetched; completion suggests the same IDs
+  const recentTemplate = (uriTemplate: string, kind: RecentEntityKind, variable: string) =>
+    new ResourceTemplate(uriTemplate, {
+      list: () => ({
+        resources: api.getRecentEntities(kind).map(entity => ({
+          uri: uriTemplate.replace(`{${variable}}`, encodeURIComponent(entity.id)),
+          name: entity.title,
+          mimeType: 'application/json',
+          description: `Fetched ${new Date(entity.fetchedAt).toISOString()}`
+        }))
+      }),
+      complete: {
+        [variable]: (value: string) => api.getRecentEntities(kind)
+          .map(entity => entity.id)
+          .filter(id => id.startsWith(value))
+      }
+    });
+  const variable = (value: string | string[] | undefined) =>
+    decodeURIComponent(Array.isArray(value) ? value[0] ?? '' : value ?? '');
+
+  // Resource 1: Property Record
+  server.registerResource(
+    "property",
+    recentTemplate("rentcast://property/{id}", 'property', 'id'),
+    {
+      title: "Property record",
+      description: "Rentcast property record with sale history timeline, as JSON and markdown (1 API call unless cached)",
+      mimeType: "application/json"
+    },
+    async (uri, variables) => createResourceResult(uri, await api.getProperty(variable(variables.id)), buildPropertyReport)
+  );
+
+  // Resource 2: Sale Listing
+  server.registerResource(
+    "sale-listing",
+    recentTemplate("rentcast://listing/sale/{id}", 'sale-listing', 'id'),
+    {
+      title: "Sale listing",
+      description: "Sale listing with MLS info, agent/office contacts and timeline, as JSON and markdown (1 API call unless cached)",
+      mimeType: "application/json"
+    },
+    async (uri, variables) => createResourceResult(uri, await api.getSaleListing(variable(variables.id)), data => buildListingReport(data, 'sale'))
+  );
+
+  // Resource 3: Rental Listing
+  server.registerResource(
+    "rental-listing",
+    recentTemplate("rentcast://listing/rental/{id}", 'rental-listing', 'id'),
+    {
+      title: "Rental listing",
+      description: "Long-term rental listing with MLS info, agent/office contacts and timeline, as JSON and markdown (1 API call unless cached)",
+      mimeType: "application/json"
+    },
+    async (uri, variables) => createResourceResult(uri, await api.getRentalListing(variable(variables.id)), data => buildListingReport(data, 'rental'))
+  );
+
+  // Resource 4: Market Snapshot
+  server.registerResource(
+    "market",
+    recentTemplate("rentcast://market/{zipCode}", 'market', 'zipCode'),
+    {
+      title: "Market snapshot",
+      description: "ZIP code sale and rental market statistics with trends, as JSON and markdown (1 API call unless cached)",
+      mimeType: "application/json"
+    },
+    async (uri, variables) => {
+      const zipCode = variable(variables.zipCode);
+      if (!/^\d{5}$/.test(zipCode)) {
+        throw new Error(`Invalid ZIP code in ${uri.href}: expected 5 digits`);
+      }
+      return createResourceResult(uri, await api.getMarketData({ zipCode, historyRange: DEFAULT_MARKET_HISTORY_MONTHS }), data => {
+        const market = Array.isArray(data) ? data[0] : data;
+        return market && (market.saleData || market.rentalData) ? buildMarketReport(market, `ZIP: ${zipCode}`) : null;
+      });
+    }
+  );
+
+  // ========================================
+  // 💬 MCP PROMPTS (multi-step workflows)
+  // ========================================
+
+  // Prompt 1: Underwrite Rental
+  server.registerPrompt(
+    "underwrite-rental",
+    {
+      title: "Underwrite a rental",
+      description: "Value, rent, market and return metrics for one address, written up as an underwriting memo",
+      argsSchema: UnderwriteRentalPromptArgs
+    },
+    (args) => createPromptResult(`Underwrite ${args.address}`, underwriteRentalPrompt(args))
+  );
+
+  // Prompt 2: Neighborhood Brief
+  server.registerPrompt(
+    "neighborhood-brief",
+    {
+      title: "Neighborhood brief",
+      description: "Market statistics, trends and current listings for a ZIP code, summarized for a buyer, renter or investor",
+      argsSchema: NeighborhoodBriefPromptArgs
+    },
+    (args) => createPromptResult(`Neighborhood brief for ${args.zipCode}`, neighborhoodBriefPrompt(args))
+  );
+
+  // Prompt 3: Listing Due Diligence
+  server.registerPrompt(
+    "listing-due-diligence",
+    {
+      title: "Listing due diligence",
+      description: "Asking price vs. AVM estimate, price history, nearby competition and market direction for one listing",
+      argsSchema: ListingDueDiligencePromptArgs
+    },
+    (args) => createPromptResult(`Due diligence for listing ${args.listingId}`, listingDueDiligencePrompt(args))
+  );
+
+  // Prompt 4: Rent Pricing Advice
+  server.registerPrompt(
+    "rent-pricing-advice",
+    {
+      title: "Rent pricing advice",
+      description: "Recommended asking rent for a unit from the rent estimate, active rental listings nearby and the rental market trend",
+      argsSchema: RentPricingAdvicePromptArgs
+    },
+    (args) => createPromptResult(`Rent pricing for ${args.address}`, rentPricingAdvicePrompt(args))
+  );
+
+  return server;
+}
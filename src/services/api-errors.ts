@@ -0,0 +1,117 @@
+import { ApiError, ApiErrorType, BudgetExhaustion } from "../types/index.js";
+
+/**
+ * Actionable guidance for the model, per error category
+ */
+export const API_ERROR_REMEDIATION: Record<ApiErrorType, string> = {
+  auth:
+    "The Rentcast API key was rejected. This cannot be fixed by changing tool parameters; ask the user to check RENTCAST_API_KEY and their Rentcast subscription.",
+  not_found:
+    "Rentcast has no record for this lookup. Double-check the ID or address (full street, city, state and ZIP), or search with get_sale_listings / get_rental_listings / search_properties to find a valid one.",
+  validation:
+    "Rentcast rejected the request parameters. Correct the parameters mentioned in the error (formats, ranges, required combinations) and try again.",
+  rate_limited:
+    "The API call budget or rate limit was reached. Do not retry immediately; wait for the indicated time, reuse results you already have, or check get_server_status for remaining calls.",
+  upstream:
+    "The Rentcast API had a server-side problem. Retrying later may succeed; meanwhile continue with the data already gathered.",
+  timeout:
+    "The Rentcast API did not respond in time. Retry once, or narrow the request (smaller limit, more specific location).",
+  network:
+    "The Rentcast API could not be reached. Check connectivity / RENTCAST_BASE_URL; retrying immediately is unlikely to help.",
+  replay_miss:
+    "The server is replaying recorded Rentcast traffic and nothing was recorded for this exact request. Retry with parameters from the recorded session, or ask the user to record it (CASSETTE_MODE=record).",
+};
+
+/**
+ * Pull a human-readable message out of a Rentcast error body
+ * (JSON `{ message }` / `{ error }` or plain text)
+ */
+function extractMessage(body: string): string {
+  try {
+    const parsed = JSON.parse(body);
+    if (parsed && typeof parsed === "object") {
+      return String(parsed.message || parsed.error || body);
+    }
+  } catch {
+    // Not JSON; fall through to raw text
+  }
+  return body.trim() || "No error details provided";
+}
+
+/**
+ * Classify a non-2xx Rentcast response
+ */
+export function classifyHttpError(
+  status: number,
+  body: string,
+  retryAfterMs?: number,
+): ApiError {
+  const message = `API Error ${status}: ${extractMessage(body)}`;
+
+  if (status === 401 || status === 403) {
+    return { type: "auth", status, message };
+  }
+  if (status === 404) {
+    return { type: "not_found", status, message };
+  }
+  if (status === 400 || status === 422) {
+    return { type: "validation", status, message };
+  }
+  if (status === 429) {
+    return {
+      type: "rate_limited",
+      source: "upstream",
+      status,
+      message,
+      ...(retryAfterMs !== undefined && { retryAfterMs }),
+    };
+  }
+  if (status === 408) {
+    return { type: "timeout", message };
+  }
+  return { type: "upstream", status, message };
+}
+
+/**
+ * Classify an exception thrown by fetch / response parsing
+ */
+export function classifyThrownError(error: unknown): ApiError {
+  const message = error instanceof Error ? error.message : "Unknown error";
+
+  if (
+    error instanceof Error &&
+    (error.name === "TimeoutError" || error.name === "AbortError")
+  ) {
+    return { type: "timeout", message: `Request timed out: ${message}` };
+  }
+  if (error instanceof Error && error.name === "TypeError") {
+    return { type: "network", message };
+  }
+  if (error instanceof Error && error.name === "CassetteMissError") {
+    return { type: "replay_miss", message };
+  }
+  if (error instanceof SyntaxError) {
+    return {
+      type: "upstream",
+      message: `Invalid JSON from Rentcast: ${message}`,
+    };
+  }
+  return { type: "network", message };
+}
+
+/**
+ * Describe a refusal by the local budget / rate limiter
+ */
+export function budgetExhaustedError(exhausted: BudgetExhaustion): ApiError {
+  return {
+    type: "rate_limited",
+    source: exhausted.reason,
+    message:
+      exhausted.reason === "session_limit"
+        ? `API call budget exhausted: ${exhausted.callsMade}/${exhausted.maxCalls} calls used this session`
+        : `Rate limit reached: retry in ${Math.ceil((exhausted.retryAfterMs ?? 0) / 1000)}s`,
+    ...(exhausted.retryAfterMs !== undefined && {
+      retryAfterMs: exhausted.retryAfterMs,
+    }),
+  };
+}
@@ -0,0 +1,93 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { IncomingMessage } from "node:http";
+import { z } from "zod";
+
+/**
+ * Identity of an authenticated HTTP client and its Rentcast settings
+ */
+export interface ClientIdentity {
+  clientId: string;
+  rentcastApiKey?: string;
+  maxApiCallsPerSession?: number;
+  rateLimitPerMinute?: number;
+}
+
+/**
+ * Pluggable inbound auth check: maps a bearer token to a client identity,
+ * or null when the token is not recognised
+ */
+export interface AuthProvider {
+  authenticate(token: string): Promise<ClientIdentity | null>;
+}
+
+/**
+ * Format of the AUTH_CONFIG_FILE JSON document
+ */
+export const AuthConfigSchema = z.object({
+  clients: z
+    .array(
+      z.object({
+        clientId: z.string().min(1),
+        token: z.string().min(16, "Tokens must be at least 16 characters"),
+        rentcastApiKey: z.string().min(1).optional(),
+        // 0 blocks every upstream call (cached responses are still served)
+        maxApiCallsPerSession: z.number().int().min(0).optional(),
+        // 0 turns the per-minute limit off for this client
+        rateLimitPerMinute: z.number().int().min(0).optional(),
+      }),
+    )
+    .min(1),
+});
+
+function hashToken(token: string): Buffer {
+  return createHash("sha256").update(token).digest();
+}
+
+/**
+ * Auth provider backed by a static list of tokens (constant-time compare)
+ */
+export class StaticTokenAuthProvider implements AuthProvider {
+  private clients: Array<{ tokenHash: Buffer; identity: ClientIdentity }>;
+
+  constructor(config: z.infer<typeof AuthConfigSchema>) {
+    this.clients = config.clients.map(({ token, ...identity }) => ({
+      tokenHash: hashToken(token),
+      identity: identity as ClientIdentity,
+    }));
+  }
+
+  /**
+   * Load clients from a JSON file (see AuthConfigSchema)
+   */
+  static fromFile(filePath: string): StaticTokenAuthProvider {
+    const raw = JSON.parse(readFileSync(filePath, "utf8"));
+    const parsed = AuthConfigSchema.safeParse(raw);
+    if (!parsed.success) {
+      const details = parsed.error.errors
+        .map((e) => `${e.path.join(".")}: ${e.message}`)
+        .join(", ");
+      throw new Error(`Invalid auth config ${filePath}: ${details}`);
+    }
+    return new StaticTokenAuthProvider(parsed.data);
+  }
+
+  async authenticate(token: string): Promise<ClientIdentity | null> {
+    const candidate = hashToken(token);
+    const match = this.clients.find((client) =>
+      timingSafeEqual(client.tokenHash, candidate),
+    );
+    return match ? match.identity : null;
+  }
+}
+
+/**
+ * Extract the bearer token from an Authorization header
+ */
+export function getBearerToken(req: IncomingMessage): string | null {
+  const header = req.headers.authorization;
+  if (!header) return null;
+
+  const match = /^Bearer\s+(.+)$/i.exec(header.trim());
+  return match?.[1] ?? null;
+}
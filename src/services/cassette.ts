@@ -0,0 +1,162 @@
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { CassetteMode } from "../types/index.js";
+import { logger } from "./logger.js";
+import { buildCacheKey, normalizeParams } from "./response-cache.js";
+import { resolveEndpointKey } from "./usage-tracker.js";
+
+const REDACTED = "[REDACTED]";
+
+/**
+ * Response headers kept in recordings (the rest is noise for replay)
+ */
+const RECORDED_HEADERS = ["content-type", "retry-after"];
+
+export interface CassetteOptions {
+  mode: Exclude<CassetteMode, "off">;
+  dir: string;
+  apiKey: string;
+}
+
+/**
+ * One recorded request/response pair, stored as <endpoint>-<hash>.json
+ */
+export interface Recording {
+  key: string;
+  recordedAt: string;
+  request: {
+    method: "GET";
+    endpoint: string;
+    params: Record<string, string>;
+    headers: Record<string, string>;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    // Parsed JSON body, or the raw text when the body is not JSON
+    body?: unknown;
+    text?: string;
+  };
+}
+
+/**
+ * Thrown in replay mode when no recording matches a request
+ */
+export class CassetteMissError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CassetteMissError";
+  }
+}
+
+/**
+ * Cassette
+ * Records raw Rentcast HTTP exchanges to a directory and replays them
+ * later without network access. Requests are matched on endpoint plus
+ * normalized params (the response cache key); the API key never reaches disk.
+ */
+export class Cassette {
+  readonly mode: Exclude<CassetteMode, "off">;
+  private dir: string;
+  private apiKey: string;
+
+  constructor(options: CassetteOptions) {
+    this.mode = options.mode;
+    this.dir = options.dir;
+    this.apiKey = options.apiKey;
+  }
+
+  /**
+   * Save a live response; re-recording the same request overwrites it
+   */
+  async record(
+    endpoint: string,
+    params: Record<string, any>,
+    response: Response,
+  ): Promise<void> {
+    const key = buildCacheKey(endpoint, params);
+    const text = await response.clone().text();
+    const headers: Record<string, string> = {};
+    RECORDED_HEADERS.forEach((name) => {
+      const value = response.headers.get(name);
+      if (value !== null) headers[name] = value;
+    });
+
+    const recording: Recording = {
+      key,
+      recordedAt: new Date().toISOString(),
+      request: {
+        method: "GET",
+        endpoint,
+        params: normalizeParams(params),
+        headers: { "X-Api-Key": REDACTED },
+      },
+      response: { status: response.status, headers, ...parseBody(text) },
+    };
+
+    try {
+      await fs.mkdir(this.dir, { recursive: true });
+      await fs.writeFile(
+        this.filePath(endpoint, key),
+        `${this.scrub(JSON.stringify(recording, null, 2))}\n`,
+      );
+    } catch (error) {
+      // A failed write must not break the live call it was recording
+      logger.error("Could not write recording", {
+        endpoint,
+        dir: this.dir,
+        error,
+      });
+    }
+  }
+
+  /**
+   * Serve a recorded response, or throw CassetteMissError
+   */
+  async replay(
+    endpoint: string,
+    params: Record<string, any>,
+  ): Promise<Response> {
+    const key = buildCacheKey(endpoint, params);
+    const file = this.filePath(endpoint, key);
+
+    let recording: Recording | null = null;
+    try {
+      recording = JSON.parse(await fs.readFile(file, "utf8")) as Recording;
+    } catch {
+      recording = null;
+    }
+
+    if (!recording || recording.key !== key) {
+      const message = `No recording for GET ${endpoint} ${JSON.stringify(normalizeParams(params))} (expected ${file})`;
+      throw new CassetteMissError(message);
+    }
+
+    const { status, headers, body, text } = recording.response;
+    return new Response(
+      body !== undefined ? JSON.stringify(body) : (text ?? ""),
+      { status, headers },
+    );
+  }
+
+  private filePath(endpoint: string, key: string): string {
+    const slug = resolveEndpointKey(endpoint)
+      .replace(/[{}]/g, "")
+      .replace(/[^a-z0-9]+/gi, "-");
+    const hash = createHash("sha256").update(key).digest("hex").slice(0, 16);
+    return path.join(this.dir, `${slug}-${hash}.json`);
+  }
+
+  private scrub(text: string): string {
+    return this.apiKey ? text.split(this.apiKey).join(REDACTED) : text;
+  }
+}
+
+function parseBody(text: string): { body: unknown } | { text: string } {
+  try {
+    return { body: JSON.parse(text) };
+  } catch {
+    return { text };
+  }
+}
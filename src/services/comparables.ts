@@ -0,0 +1,97 @@
+import {
+  ComparableOutput,
+  ComparableSummaryOutput,
+} from "../types/index.js";
+import { round } from "./numbers.js";
+
+/**
+ * Comparables
+ * Sorting and summary statistics shared by the value and rent AVM tools.
+ * Works on normalized comparables (see normalizeComparable), where `price`
+ * is the sale price or the monthly rent.
+ */
+
+export type ComparableSortKey = "correlation" | "distance" | "pricePerSquareFoot";
+
+function median(values: number[]): number | undefined {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[mid - 1]! + sorted[mid]!) / 2
+    : sorted[mid];
+}
+
+function average(values: number[]): number | undefined {
+  if (values.length === 0) return undefined;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Best match first: highest correlation, nearest, or highest price/sqft.
+ * Comparables missing the sort field go last.
+ */
+export function sortComparables(
+  comparables: ComparableOutput[],
+  sortBy: ComparableSortKey,
+): ComparableOutput[] {
+  const direction = sortBy === "distance" ? 1 : -1;
+  return [...comparables].sort((a, b) => {
+    const av = a[sortBy];
+    const bv = b[sortBy];
+    if (av == null && bv == null) return 0;
+    if (av == null) return 1;
+    if (bv == null) return -1;
+    return (av - bv) * direction;
+  });
+}
+
+/**
+ * Price statistics across comparables, plus a size-adjusted value
+ * (median comp price/sqft x subject square footage) when the subject's
+ * size is known
+ */
+export function summarizeComparables(
+  comparables: ComparableOutput[],
+  subjectSquareFootage?: number | null,
+): ComparableSummaryOutput {
+  const prices = comparables
+    .map((comp) => comp.price)
+    .filter((price): price is number => price != null);
+  const perSqft = comparables
+    .map((comp) => comp.pricePerSquareFoot)
+    .filter((value): value is number => value != null);
+
+  const weighted = comparables.filter(
+    (comp) => comp.price != null && comp.correlation != null && comp.correlation > 0,
+  );
+  const totalWeight = weighted.reduce((sum, comp) => sum + comp.correlation!, 0);
+
+  const medianPrice = median(prices);
+  const averagePrice = average(prices);
+  const medianPricePerSquareFoot = median(perSqft);
+  const averagePricePerSquareFoot = average(perSqft);
+
+  return {
+    count: comparables.length,
+    ...(medianPrice !== undefined && { medianPrice: round(medianPrice) }),
+    ...(averagePrice !== undefined && { averagePrice: round(averagePrice) }),
+    ...(medianPricePerSquareFoot !== undefined && {
+      medianPricePerSquareFoot: round(medianPricePerSquareFoot),
+    }),
+    ...(averagePricePerSquareFoot !== undefined && {
+      averagePricePerSquareFoot: round(averagePricePerSquareFoot),
+    }),
+    ...(totalWeight > 0 && {
+      correlationWeightedPrice: round(
+        weighted.reduce((sum, comp) => sum + comp.price! * comp.correlation!, 0) /
+          totalWeight,
+      ),
+    }),
+    ...(subjectSquareFootage && { subjectSquareFootage }),
+    ...(subjectSquareFootage &&
+      medianPricePerSquareFoot !== undefined && {
+        sizeAdjustedValue: round(medianPricePerSquareFoot * subjectSquareFootage, 0),
+      }),
+  };
+}
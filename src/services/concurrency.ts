@@ -0,0 +1,28 @@
+/**
+ * Concurrency
+ * Bounded-parallel mapping for tools that fan out to many Rentcast requests
+ */
+
+/**
+ * Map items through `fn` with at most `limit` calls in flight.
+ * Results keep input order; `fn` should capture its own failures.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]!, index);
+    }
+  };
+
+  const workers = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
@@ -1,5 +1,10 @@
 import dotenv from "dotenv";
-import { ServerConfig } from "../types/index.js";
+import {
+  CassetteMode,
+  LogLevel,
+  ServerConfig,
+  TransportMode,
+} from "../types/index.js";
 
 // Load environment variables
 dotenv.config();
@@ -27,6 +32,16 @@ export class ConfigService {
     return this.config;
   }
 
+  /**
+   * Effective configuration with secrets masked, safe to show to clients
+   */
+  public getRedactedConfig(): ServerConfig {
+    return {
+      ...this.config,
+      rentcastApiKey: redactApiKey(this.config.rentcastApiKey),
+    };
+  }
+
   private loadConfig(): ServerConfig {
     return {
       // Rentcast API Configuration
@@ -36,8 +51,59 @@ export class ConfigService {
         "https://api.rentcast.io/v1",
       ),
 
-
       timeoutSeconds: this.getNumberEnv("TIMEOUT_SECONDS", 30),
+
+      // API usage limits
+      maxApiCallsPerSession: this.getNumberEnv("MAX_API_CALLS_PER_SESSION", 40),
+      enableRateLimiting: this.getBoolEnv("ENABLE_RATE_LIMITING", true),
+      rateLimitPerMinute: this.getNumberEnv("RATE_LIMIT_PER_MINUTE", 60),
+
+      // Response cache (CACHE_DIR enables on-disk persistence)
+      enableCache: this.getBoolEnv("ENABLE_CACHE", true),
+      cacheDir: this.getEnv("CACHE_DIR", ""),
+      cacheMaxEntries: this.getNumberEnv("CACHE_MAX_ENTRIES", 500),
+
+      // Retry policy for transient upstream failures (429, 5xx, timeouts)
+      maxRetryAttempts: this.getNumberEnv("MAX_RETRY_ATTEMPTS", 3),
+      retryBaseDelayMs: this.getNumberEnv("RETRY_BASE_DELAY_MS", 500),
+      retryMaxDelayMs: this.getNumberEnv("RETRY_MAX_DELAY_MS", 10000),
+
+      // Auto-paging: hard cap on upstream pages fetched per tool invocation
+      maxPagesPerCall: this.getNumberEnv("MAX_PAGES_PER_CALL", 5),
+
+      // Fan-out tools: upstream requests in flight at once per tool invocation
+      maxConcurrentRequests: this.getNumberEnv("MAX_CONCURRENT_REQUESTS", 4),
+
+      // Batch valuation: default upstream call ceiling per batch, and the
+      // only directory CSV inputs may be read from (default: working dir)
+      maxBatchApiCalls: this.getNumberEnv("MAX_BATCH_API_CALLS", 100),
+      batchInputDir: this.getEnv("BATCH_INPUT_DIR", process.cwd()),
+
+      // HTTP record/replay of Rentcast traffic (demos, offline development)
+      cassetteMode: this.getCassetteModeEnv("CASSETTE_MODE", "off"),
+      cassetteDir: this.getEnv("CASSETTE_DIR", ".mcp/cassettes"),
+
+      // Transport (stdio for local clients, http/sse to serve over the network)
+      transport: this.getTransportEnv("TRANSPORT", "stdio"),
+      host: this.getEnv("HOST", "127.0.0.1"),
+      port: this.getNumberEnv("PORT", 3000),
+      sessionIdleTimeoutMs: this.getNumberEnv(
+        "SESSION_IDLE_TIMEOUT_MS",
+        30 * 60 * 1000,
+      ),
+      maxRequestBodyBytes: this.getNumberEnv(
+        "MAX_REQUEST_BODY_BYTES",
+        1024 * 1024,
+      ),
+
+      // Inbound bearer-token auth for HTTP transports (JSON client list)
+      authConfigFile: this.getEnv("AUTH_CONFIG_FILE", ""),
+
+      // Structured JSON logs on stderr (DEBUG=true is shorthand for debug)
+      logLevel: this.getLogLevelEnv(
+        "LOG_LEVEL",
+        this.getBoolEnv("DEBUG", false) ? "debug" : "info",
+      ),
     };
   }
 
@@ -74,6 +140,67 @@ export class ConfigService {
     return value.toLowerCase() === "true";
   }
 
+  private getTransportEnv(
+    key: string,
+    defaultValue: TransportMode,
+  ): TransportMode {
+    const value = process.env[key];
+    if (!value) return defaultValue;
+
+    const mode = value.toLowerCase();
+    if (mode === "stdio" || mode === "http" || mode === "sse") {
+      return mode;
+    }
+    console.warn(
+      `Invalid transport for ${key}: ${value}, using default: ${defaultValue}`,
+    );
+    return defaultValue;
+  }
+
+  private getCassetteModeEnv(
+    key: string,
+    defaultValue: CassetteMode,
+  ): CassetteMode {
+    const value = process.env[key];
+    if (!value) return defaultValue;
+
+    const mode = value.toLowerCase();
+    if (mode === "off" || mode === "record" || mode === "replay") {
+      return mode;
+    }
+    console.warn(
+      `Invalid cassette mode for ${key}: ${value}, using default: ${defaultValue}`,
+    );
+    return defaultValue;
+  }
+
+  private getLogLevelEnv(key: string, defaultValue: LogLevel): LogLevel {
+    const value = process.env[key];
+    if (!value) return defaultValue;
+
+    const level = value.toLowerCase();
+    if (
+      level === "debug" ||
+      level === "info" ||
+      level === "warn" ||
+      level === "error" ||
+      level === "silent"
+    ) {
+      return level;
+    }
+    console.warn(
+      `Invalid log level for ${key}: ${value}, using default: ${defaultValue}`,
+    );
+    return defaultValue;
+  }
+
+  /**
+   * Apply overrides (e.g. from CLI flags) on top of the environment config
+   */
+  public applyOverrides(overrides: Partial<ServerConfig>): void {
+    this.config = { ...this.config, ...overrides };
+  }
+
   // Getters for specific config values
   public get rentcastApiKey(): string {
     return this.config.rentcastApiKey;
@@ -83,11 +210,104 @@ export class ConfigService {
     return this.config.rentcastBaseUrl;
   }
 
-
-
   public get timeoutSeconds(): number {
     return this.config.timeoutSeconds;
   }
+
+  public get maxApiCallsPerSession(): number {
+    return this.config.maxApiCallsPerSession;
+  }
+
+  public get enableRateLimiting(): boolean {
+    return this.config.enableRateLimiting;
+  }
+
+  public get rateLimitPerMinute(): number {
+    return this.config.rateLimitPerMinute;
+  }
+
+  public get enableCache(): boolean {
+    return this.config.enableCache;
+  }
+
+  public get cacheDir(): string {
+    return this.config.cacheDir;
+  }
+
+  public get cacheMaxEntries(): number {
+    return this.config.cacheMaxEntries;
+  }
+
+  public get maxRetryAttempts(): number {
+    return this.config.maxRetryAttempts;
+  }
+
+  public get retryBaseDelayMs(): number {
+    return this.config.retryBaseDelayMs;
+  }
+
+  public get retryMaxDelayMs(): number {
+    return this.config.retryMaxDelayMs;
+  }
+
+  public get maxPagesPerCall(): number {
+    return this.config.maxPagesPerCall;
+  }
+
+  public get maxConcurrentRequests(): number {
+    return this.config.maxConcurrentRequests;
+  }
+
+  public get maxBatchApiCalls(): number {
+    return this.config.maxBatchApiCalls;
+  }
+
+  public get batchInputDir(): string {
+    return this.config.batchInputDir;
+  }
+
+  public get cassetteMode(): CassetteMode {
+    return this.config.cassetteMode;
+  }
+
+  public get cassetteDir(): string {
+    return this.config.cassetteDir;
+  }
+
+  public get logLevel(): LogLevel {
+    return this.config.logLevel;
+  }
+
+  public get sessionIdleTimeoutMs(): number {
+    return this.config.sessionIdleTimeoutMs;
+  }
+
+  public get maxRequestBodyBytes(): number {
+    return this.config.maxRequestBodyBytes;
+  }
+
+  public get transport(): TransportMode {
+    return this.config.transport;
+  }
+
+  public get host(): string {
+    return this.config.host;
+  }
+
+  public get port(): number {
+    return this.config.port;
+  }
+
+  public get authConfigFile(): string {
+    return this.config.authConfigFile;
+  }
+}
+
+/**
+ * Mask an API key for display, keeping only a short prefix
+ */
+export function redactApiKey(key: string): string {
+  return key.length > 8 ? `${key.slice(0, 4)}****` : "****";
 }
 
 // Export singleton instance
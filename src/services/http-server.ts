@@ -0,0 +1,421 @@
+import { randomUUID } from "node:crypto";
+import http, { IncomingMessage, ServerResponse } from "node:http";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { TransportMode } from "../types/index.js";
+import { AuthProvider, ClientIdentity, getBearerToken } from "./auth.js";
+import { logger } from "./logger.js";
+
+export interface HttpServerOptions {
+  mode: Exclude<TransportMode, "stdio">;
+  host: string;
+  port: number;
+  /**
+   * Build the MCP server for a new session; identity is null when auth is off
+   */
+  createServer: (identity: ClientIdentity | null) => McpServer;
+  authProvider?: AuthProvider;
+  /**
+   * Close Streamable HTTP sessions with no requests for this long (0 = never)
+   */
+  sessionIdleTimeoutMs?: number;
+  /**
+   * Largest request body accepted, in bytes (default 1 MB); larger ones get 413
+   */
+  maxBodyBytes?: number;
+}
+
+/**
+ * State kept for each connected MCP client
+ */
+interface HttpSession {
+  id: string;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: McpServer;
+  clientId: string | null;
+  createdAt: number;
+  lastActivityAt: number;
+}
+
+/**
+ * Handle returned by startHttpServer for graceful shutdown
+ */
+export interface HttpServerHandle {
+  url: string;
+  close(): Promise<void>;
+}
+
+const MCP_PATH = "/mcp";
+const SSE_PATH = "/sse";
+const SSE_MESSAGES_PATH = "/messages";
+const HEALTH_PATH = "/health";
+
+/**
+ * Longest wait between idle-session sweeps
+ */
+const MAX_SWEEP_INTERVAL_MS = 60_000;
+
+const DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Thrown when a request body exceeds maxBodyBytes
+ */
+class PayloadTooLargeError extends Error {
+  constructor(maxBytes: number) {
+    super(`Request body exceeds ${maxBytes} bytes`);
+    this.name = "PayloadTooLargeError";
+  }
+}
+
+/**
+ * Read and JSON-parse a request body, giving up as soon as it grows past
+ * maxBytes (the rest is never buffered)
+ */
+function readJsonBody(req: IncomingMessage, maxBytes: number): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    if (Number(req.headers["content-length"]) > maxBytes) {
+      reject(new PayloadTooLargeError(maxBytes));
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const cleanup = () => {
+      req.off("data", onData);
+      req.off("end", onEnd);
+      req.off("error", onError);
+    };
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        cleanup();
+        req.pause();
+        reject(new PayloadTooLargeError(maxBytes));
+        return;
+      }
+      chunks.push(chunk);
+    };
+    const onEnd = () => {
+      cleanup();
+      try {
+        const raw = Buffer.concat(chunks).toString("utf8");
+        resolve(raw ? JSON.parse(raw) : undefined);
+      } catch (error) {
+        reject(error);
+      }
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+    req.on("data", onData);
+    req.on("end", onEnd);
+    req.on("error", onError);
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(
+  res: ServerResponse,
+  status: number,
+  message: string,
+): void {
+  sendJson(res, status, {
+    jsonrpc: "2.0",
+    error: { code: -32000, message },
+    id: null,
+  });
+}
+
+/**
+ * Serve the MCP server over Streamable HTTP (`/mcp`) or legacy SSE
+ * (`/sse` + `/messages`), plus a `/health` endpoint.
+ * Each client session gets its own McpServer instance.
+ */
+export async function startHttpServer(
+  options: HttpServerOptions,
+): Promise<HttpServerHandle> {
+  const sessions = new Map<string, HttpSession>();
+  const startedAt = Date.now();
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+
+  const closeSession = async (id: string): Promise<void> => {
+    const session = sessions.get(id);
+    if (!session) return;
+    sessions.delete(id);
+    await session.server
+      .close()
+      .catch((error) =>
+        logger.warn("Error closing MCP session", { sessionId: id, error }),
+      );
+  };
+
+  const touch = (id: string | undefined): HttpSession | undefined => {
+    const session = id ? sessions.get(id) : undefined;
+    if (session) session.lastActivityAt = Date.now();
+    return session;
+  };
+
+  /**
+   * Close Streamable HTTP sessions whose client went away without a DELETE,
+   * releasing their McpServer, Rentcast client and cache. SSE sessions end
+   * when their stream closes.
+   */
+  const idleTimeoutMs = options.sessionIdleTimeoutMs ?? 0;
+  const sweepTimer =
+    idleTimeoutMs > 0
+      ? setInterval(
+          () => {
+            const now = Date.now();
+            sessions.forEach((session) => {
+              if (
+                session.transport instanceof StreamableHTTPServerTransport &&
+                now - session.lastActivityAt >= idleTimeoutMs
+              ) {
+                logger.info("Closing idle MCP session", {
+                  sessionId: session.id,
+                  clientId: session.clientId,
+                  ageMs: now - session.createdAt,
+                  idleMs: now - session.lastActivityAt,
+                });
+                void closeSession(session.id);
+              }
+            });
+          },
+          Math.min(idleTimeoutMs, MAX_SWEEP_INTERVAL_MS),
+        ).unref()
+      : undefined;
+
+  /**
+   * A session may only be used by the client that created it
+   */
+  const ownsSession = (
+    session: HttpSession,
+    identity: ClientIdentity | null,
+    res: ServerResponse,
+  ): boolean => {
+    if (session.clientId === (identity?.clientId ?? null)) return true;
+    sendJsonRpcError(res, 403, "Session belongs to another client");
+    return false;
+  };
+
+  /**
+   * Streamable HTTP: POST/GET/DELETE on /mcp, session via mcp-session-id header
+   */
+  const handleStreamableHttp = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+    identity: ClientIdentity | null,
+  ): Promise<void> => {
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+    const existing = touch(sessionId);
+    if (existing && !ownsSession(existing, identity, res)) return;
+
+    if (req.method === "POST") {
+      const body = await readJsonBody(req, maxBodyBytes);
+
+      if (existing) {
+        await (existing.transport as StreamableHTTPServerTransport).handleRequest(
+          req,
+          res,
+          body,
+        );
+        return;
+      }
+
+      if (sessionId || !isInitializeRequest(body)) {
+        sendJsonRpcError(
+          res,
+          sessionId ? 404 : 400,
+          sessionId
+            ? "Session not found"
+            : "Bad Request: no valid session ID provided",
+        );
+        return;
+      }
+
+      const server = options.createServer(identity);
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          const now = Date.now();
+          sessions.set(id, {
+            id,
+            transport,
+            server,
+            clientId: identity?.clientId ?? null,
+            createdAt: now,
+            lastActivityAt: now,
+          });
+        },
+      });
+      transport.onclose = () => {
+        if (transport.sessionId) sessions.delete(transport.sessionId);
+      };
+
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method === "GET" || req.method === "DELETE") {
+      if (!existing) {
+        sendJsonRpcError(res, 400, "Invalid or missing session ID");
+        return;
+      }
+      await (existing.transport as StreamableHTTPServerTransport).handleRequest(
+        req,
+        res,
+      );
+      if (req.method === "DELETE") {
+        await closeSession(existing.id);
+      }
+      return;
+    }
+
+    res.writeHead(405, { Allow: "GET, POST, DELETE" }).end();
+  };
+
+  /**
+   * Legacy SSE: GET /sse opens the stream, POST /messages?sessionId=... sends
+   */
+  const handleSse = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+    url: URL,
+    identity: ClientIdentity | null,
+  ): Promise<void> => {
+    if (url.pathname === SSE_PATH && req.method === "GET") {
+      const server = options.createServer(identity);
+      const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+      const now = Date.now();
+      sessions.set(transport.sessionId, {
+        id: transport.sessionId,
+        transport,
+        server,
+        clientId: identity?.clientId ?? null,
+        createdAt: now,
+        lastActivityAt: now,
+      });
+      res.on("close", () => {
+        void closeSession(transport.sessionId);
+      });
+      await server.connect(transport);
+      return;
+    }
+
+    if (url.pathname === SSE_MESSAGES_PATH && req.method === "POST") {
+      const session = touch(url.searchParams.get("sessionId") ?? undefined);
+      if (!session) {
+        sendJsonRpcError(res, 404, "Session not found");
+        return;
+      }
+      if (!ownsSession(session, identity, res)) return;
+      const body = await readJsonBody(req, maxBodyBytes);
+      await (session.transport as SSEServerTransport).handlePostMessage(
+        req,
+        res,
+        body,
+      );
+      return;
+    }
+
+    res.writeHead(404).end();
+  };
+
+  const httpServer = http.createServer((req, res) => {
+    const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+
+    const handle = async (): Promise<void> => {
+      if (url.pathname === HEALTH_PATH && req.method === "GET") {
+        sendJson(res, 200, {
+          status: "ok",
+          transport: options.mode,
+          sessions: sessions.size,
+          uptimeSeconds: Math.floor((Date.now() - startedAt) / 1000),
+        });
+        return;
+      }
+
+      // Every MCP request must carry a valid bearer token when auth is on
+      let identity: ClientIdentity | null = null;
+      if (options.authProvider) {
+        const token = getBearerToken(req);
+        identity = token
+          ? await options.authProvider.authenticate(token)
+          : null;
+        if (!identity) {
+          res.setHeader("WWW-Authenticate", 'Bearer realm="rentcast-mcp"');
+          sendJsonRpcError(
+            res,
+            401,
+            "Unauthorized: missing or invalid bearer token",
+          );
+          return;
+        }
+      }
+
+      if (options.mode === "http" && url.pathname === MCP_PATH) {
+        await handleStreamableHttp(req, res, identity);
+        return;
+      }
+
+      if (options.mode === "sse") {
+        await handleSse(req, res, url, identity);
+        return;
+      }
+
+      res.writeHead(404).end();
+    };
+
+    handle().catch((error) => {
+      logger.error("HTTP request failed", {
+        method: req.method,
+        path: req.url?.split("?")[0],
+        error,
+      });
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      if (error instanceof PayloadTooLargeError) {
+        // The unread rest of the body is dropped with the connection
+        res.setHeader("Connection", "close");
+        sendJsonRpcError(res, 413, error.message);
+        return;
+      }
+      sendJsonRpcError(
+        res,
+        error instanceof SyntaxError ? 400 : 500,
+        error instanceof Error ? error.message : "Internal server error",
+      );
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => resolve());
+  });
+
+  const address = httpServer.address();
+  const port =
+    address && typeof address === "object" ? address.port : options.port;
+
+  return {
+    url: `http://${options.host}:${port}`,
+    close: async () => {
+      clearInterval(sweepTimer);
+      await Promise.all(Array.from(sessions.keys()).map(closeSession));
+      await new Promise<void>((resolve) => {
+        httpServer.close(() => resolve());
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
@@ -0,0 +1,102 @@
+import { InvestmentAnalysisOutput } from "../types/index.js";
+import { round } from "./numbers.js";
+
+/**
+ * Investment Analysis
+ * Rental property underwriting math: NOI, debt service, cash flow and the
+ * usual return metrics. Pure functions; the tool gathers the inputs.
+ */
+
+export type InvestmentAssumptions = InvestmentAnalysisOutput["assumptions"];
+
+type InvestmentResults = Pick<
+  InvestmentAnalysisOutput,
+  "annual" | "financing" | "metrics"
+>;
+
+/**
+ * Fixed-rate amortized monthly payment
+ */
+export function monthlyMortgagePayment(
+  loanAmount: number,
+  annualRatePercent: number,
+  termYears: number,
+): number {
+  if (loanAmount <= 0) return 0;
+  const months = termYears * 12;
+  const monthlyRate = annualRatePercent / 100 / 12;
+  if (monthlyRate === 0) return loanAmount / months;
+  return (loanAmount * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -months));
+}
+
+/**
+ * Latest annual tax bill from a property record's `propertyTaxes`
+ * (keyed by year, each with a `total`)
+ */
+export function latestPropertyTax(
+  propertyTaxes: Record<string, any> | null | undefined,
+): number | undefined {
+  if (!propertyTaxes) return undefined;
+  const latest = Object.entries(propertyTaxes)
+    .filter(([, entry]) => typeof entry?.total === "number")
+    .sort(([a], [b]) => b.localeCompare(a))[0];
+  return latest ? latest[1].total : undefined;
+}
+
+export function analyzeInvestment(a: InvestmentAssumptions): InvestmentResults {
+  const grossRent = a.monthlyRent * 12;
+  const vacancyLoss = grossRent * (a.vacancyRate / 100);
+  const effectiveGrossIncome = grossRent - vacancyLoss;
+  const operatingExpenses =
+    a.annualPropertyTax +
+    a.annualInsurance +
+    a.monthlyHoa * 12 +
+    effectiveGrossIncome * (a.managementRate / 100) +
+    grossRent * (a.maintenanceRate / 100);
+  const netOperatingIncome = effectiveGrossIncome - operatingExpenses;
+
+  const downPayment = a.purchasePrice * (a.downPaymentPercent / 100);
+  const closingCosts = a.purchasePrice * (a.closingCostPercent / 100);
+  const totalCashInvested = downPayment + closingCosts;
+  const loanAmount = a.purchasePrice - downPayment;
+  const monthlyPayment = monthlyMortgagePayment(
+    loanAmount,
+    a.interestRate,
+    a.loanTermYears,
+  );
+  const debtService = monthlyPayment * 12;
+  const cashFlow = netOperatingIncome - debtService;
+
+  return {
+    annual: {
+      grossRent: round(grossRent),
+      vacancyLoss: round(vacancyLoss),
+      effectiveGrossIncome: round(effectiveGrossIncome),
+      operatingExpenses: round(operatingExpenses),
+      netOperatingIncome: round(netOperatingIncome),
+      debtService: round(debtService),
+      cashFlow: round(cashFlow),
+    },
+    financing: {
+      downPayment: round(downPayment),
+      closingCosts: round(closingCosts),
+      totalCashInvested: round(totalCashInvested),
+      loanAmount: round(loanAmount),
+      monthlyMortgagePayment: round(monthlyPayment),
+    },
+    metrics: {
+      capRate:
+        a.purchasePrice > 0
+          ? round((netOperatingIncome / a.purchasePrice) * 100)
+          : null,
+      cashOnCashReturn:
+        totalCashInvested > 0
+          ? round((cashFlow / totalCashInvested) * 100)
+          : null,
+      monthlyCashFlow: round(cashFlow / 12),
+      grossRentMultiplier:
+        grossRent > 0 ? round(a.purchasePrice / grossRent) : null,
+      dscr: debtService > 0 ? round(netOperatingIncome / debtService) : null,
+    },
+  };
+}
@@ -0,0 +1,142 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomBytes } from "node:crypto";
+import { LogLevel } from "../types/index.js";
+import { config } from "./config.js";
+
+const LEVEL_SEVERITY: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100,
+};
+
+/**
+ * Param names whose values never reach the log
+ */
+const SECRET_PARAM = /key|token|secret|password|authorization/i;
+
+/**
+ * Arrays longer than this are logged as a count (e.g. portfolio batches)
+ */
+const MAX_LOGGED_ARRAY = 10;
+
+/**
+ * Fields attached to every log line written while a request is in flight
+ */
+export interface LogContext {
+  requestId: string;
+  tool?: string;
+  sessionId?: string;
+}
+
+const requestContext = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Short random ID correlating a tool call with its upstream requests
+ */
+export function createRequestId(): string {
+  return randomBytes(6).toString("hex");
+}
+
+/**
+ * Run fn with a request context; logs inside it (including awaited
+ * upstream calls) carry the context fields
+ */
+export function withLogContext<T>(context: LogContext, fn: () => T): T {
+  return requestContext.run(context, fn);
+}
+
+/**
+ * Copy of request params safe to log: secrets masked, long arrays summarized
+ */
+export function redactParams(params: unknown): unknown {
+  if (Array.isArray(params)) {
+    return params.length > MAX_LOGGED_ARRAY
+      ? `[${params.length} items]`
+      : params.map(redactParams);
+  }
+  if (params === null || typeof params !== "object") return params;
+
+  const redacted: Record<string, unknown> = {};
+  Object.entries(params).forEach(([key, value]) => {
+    if (value === undefined) return;
+    redacted[key] = SECRET_PARAM.test(key) ? "[REDACTED]" : redactParams(value);
+  });
+  return redacted;
+}
+
+function serializeError(error: unknown): unknown {
+  if (!(error instanceof Error)) return error;
+  return {
+    name: error.name,
+    message: error.message,
+    ...(error.stack && { stack: error.stack }),
+  };
+}
+
+/**
+ * Logger
+ * Writes one JSON object per line to stderr (stdout belongs to the stdio
+ * transport): time, level, message, the current request context and fields
+ */
+export class Logger {
+  private level: LogLevel;
+  private write: (line: string) => void;
+
+  constructor(
+    level: LogLevel,
+    write: (line: string) => void = (line) => process.stderr.write(line),
+  ) {
+    this.level = level;
+    this.write = write;
+  }
+
+  setLevel(level: LogLevel): void {
+    this.level = level;
+  }
+
+  isEnabled(level: Exclude<LogLevel, "silent">): boolean {
+    return LEVEL_SEVERITY[level] >= LEVEL_SEVERITY[this.level];
+  }
+
+  debug(message: string, fields?: Record<string, unknown>): void {
+    this.log("debug", message, fields);
+  }
+
+  info(message: string, fields?: Record<string, unknown>): void {
+    this.log("info", message, fields);
+  }
+
+  warn(message: string, fields?: Record<string, unknown>): void {
+    this.log("warn", message, fields);
+  }
+
+  error(message: string, fields?: Record<string, unknown>): void {
+    this.log("error", message, fields);
+  }
+
+  private log(
+    level: Exclude<LogLevel, "silent">,
+    message: string,
+    fields: Record<string, unknown> = {},
+  ): void {
+    if (!this.isEnabled(level)) return;
+
+    const entry: Record<string, unknown> = {
+      time: new Date().toISOString(),
+      level,
+      msg: message,
+      ...requestContext.getStore(),
+    };
+    Object.entries(fields).forEach(([key, value]) => {
+      if (value !== undefined) {
+        entry[key] = key === "error" ? serializeError(value) : value;
+      }
+    });
+    this.write(`${JSON.stringify(entry)}\n`);
+  }
+}
+
+// Export singleton instance
+export const logger = new Logger(config.logLevel);
@@ -0,0 +1,67 @@
+import {
+  MarketComparisonMetric,
+  MarketComparisonRowOutput,
+} from "../types/index.js";
+import { toNumber } from "./numbers.js";
+
+/**
+ * Market Comparison
+ * Flattens /markets responses into comparable rows and ranks them
+ */
+
+/**
+ * One comparison row from a raw /markets record
+ */
+export function summarizeMarketForComparison(
+  zipCode: string,
+  raw: Record<string, any>,
+): MarketComparisonRowOutput {
+  const sale = raw.saleData ?? {};
+  const rental = raw.rentalData ?? {};
+  const medianPrice = toNumber(sale.medianPrice);
+  const medianRent = toNumber(rental.medianRent);
+  const grossRentYield =
+    medianPrice && medianRent !== undefined
+      ? Math.round(((medianRent * 12) / medianPrice) * 10000) / 100
+      : undefined;
+  const pricePerSquareFoot = toNumber(sale.averagePricePerSquareFoot);
+  const daysOnMarket = toNumber(sale.averageDaysOnMarket);
+  const inventory = toNumber(sale.totalListings);
+  const rentalInventory = toNumber(rental.totalListings);
+
+  return {
+    zipCode,
+    ...(raw.city && { city: String(raw.city) }),
+    ...(raw.state && { state: String(raw.state) }),
+    ...(medianPrice !== undefined && { medianPrice }),
+    ...(medianRent !== undefined && { medianRent }),
+    ...(grossRentYield !== undefined && { grossRentYield }),
+    ...(pricePerSquareFoot !== undefined && { pricePerSquareFoot }),
+    ...(daysOnMarket !== undefined && { daysOnMarket }),
+    ...(inventory !== undefined && { inventory }),
+    ...(rentalInventory !== undefined && { rentalInventory }),
+  };
+}
+
+/**
+ * Sort rows by a metric and number them; rows missing the metric go last
+ * unranked
+ */
+export function rankMarkets(
+  rows: MarketComparisonRowOutput[],
+  sortBy: MarketComparisonMetric,
+  order: "asc" | "desc",
+): MarketComparisonRowOutput[] {
+  const ranked = rows.filter((row) => row[sortBy] != null);
+  const unranked = rows.filter((row) => row[sortBy] == null);
+
+  ranked.sort((a, b) => {
+    const diff = a[sortBy]! - b[sortBy]!;
+    return order === "asc" ? diff : -diff;
+  });
+
+  return [
+    ...ranked.map((row, i) => ({ rank: i + 1, ...row })),
+    ...unranked.map((row) => ({ rank: null, ...row })),
+  ];
+}
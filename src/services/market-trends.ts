@@ -0,0 +1,192 @@
+import {
+  MarketTrendMetricOutput,
+  MarketTrendOutput,
+} from "../types/index.js";
+import { round, toNumber } from "./numbers.js";
+
+/**
+ * Market Trends
+ * Month-over-month and year-over-year changes computed from the monthly
+ * `history` Rentcast returns in /markets saleData and rentalData.
+ */
+
+interface TrendMetric {
+  key: string;
+  label: string;
+}
+
+export const SALE_TREND_METRICS: TrendMetric[] = [
+  { key: "medianPrice", label: "Median price" },
+  { key: "averagePricePerSquareFoot", label: "Price/sqft" },
+  { key: "averageDaysOnMarket", label: "Days on market" },
+  { key: "totalListings", label: "Inventory" },
+];
+
+export const RENTAL_TREND_METRICS: TrendMetric[] = [
+  { key: "medianRent", label: "Median rent" },
+  { key: "averageRentPerSquareFoot", label: "Rent/sqft" },
+  { key: "averageDaysOnMarket", label: "Days on market" },
+  { key: "totalListings", label: "Inventory" },
+];
+
+// Changes smaller than this (in percent) count as flat
+const FLAT_THRESHOLD_PERCENT = 1;
+
+interface MonthPoint {
+  month: string;
+  values: Record<string, any>;
+}
+
+function percentChange(
+  current: number | undefined,
+  previous: number | undefined,
+): number | undefined {
+  if (current === undefined || previous === undefined || previous === 0) {
+    return undefined;
+  }
+  return round(((current - previous) / previous) * 100, 1);
+}
+
+function shiftMonth(month: string, delta: number): string {
+  const [year, mon] = month.split("-").map(Number);
+  const date = new Date(Date.UTC(year!, mon! - 1 + delta, 1));
+  return date.toISOString().slice(0, 7);
+}
+
+/**
+ * History keyed by "YYYY-MM" (or carrying a `date`), oldest first
+ */
+function toSeries(history: Record<string, any> | null | undefined): MonthPoint[] {
+  if (!history) return [];
+  return Object.entries(history)
+    .map(([key, values]) => ({
+      month: String(values?.date ?? key).slice(0, 7),
+      values: values ?? {},
+    }))
+    .filter((point) => /^\d{4}-\d{2}$/.test(point.month))
+    .sort((a, b) => a.month.localeCompare(b.month));
+}
+
+function directionOf(percent: number | undefined): "up" | "down" | "flat" | undefined {
+  if (percent === undefined) return undefined;
+  if (Math.abs(percent) < FLAT_THRESHOLD_PERCENT) return "flat";
+  return percent > 0 ? "up" : "down";
+}
+
+function analyzeMetric(
+  series: MonthPoint[],
+  metric: TrendMetric,
+): MarketTrendMetricOutput {
+  const latest = series[series.length - 1]!;
+  // Only an adjacent month counts as month-over-month; skip it across gaps
+  const previous = series.find(
+    (point) => point.month === shiftMonth(latest.month, -1),
+  );
+  const yearAgoMonth = shiftMonth(latest.month, -12);
+  const yearAgoPoint = series.find((point) => point.month === yearAgoMonth);
+  const first = series.find((point) => toNumber(point.values[metric.key]) !== undefined);
+
+  const current = toNumber(latest.values[metric.key]);
+  const previousMonth = toNumber(previous?.values[metric.key]);
+  const yearAgo = toNumber(yearAgoPoint?.values[metric.key]);
+  const start = first && first !== latest ? toNumber(first.values[metric.key]) : undefined;
+
+  const monthOverMonthPercent = percentChange(current, previousMonth);
+  const yearOverYearPercent = percentChange(current, yearAgo);
+  const windowChangePercent = percentChange(current, start);
+  const direction = directionOf(yearOverYearPercent ?? windowChangePercent);
+
+  return {
+    metric: metric.key,
+    ...(current !== undefined && { current }),
+    ...(previousMonth !== undefined && { previousMonth }),
+    ...(current !== undefined &&
+      previousMonth !== undefined && {
+        monthOverMonthChange: round(current - previousMonth, 2),
+      }),
+    ...(monthOverMonthPercent !== undefined && { monthOverMonthPercent }),
+    ...(yearAgo !== undefined && { yearAgo }),
+    ...(current !== undefined &&
+      yearAgo !== undefined && {
+        yearOverYearChange: round(current - yearAgo, 2),
+      }),
+    ...(yearOverYearPercent !== undefined && { yearOverYearPercent }),
+    ...(windowChangePercent !== undefined && { windowChangePercent }),
+    ...(direction !== undefined && { direction }),
+  };
+}
+
+/**
+ * Rising prices with falling days on market / inventory read as heating;
+ * the opposite as cooling. Price carries the most weight.
+ */
+function marketDirection(
+  metrics: MarketTrendMetricOutput[],
+  priceKey: string,
+): MarketTrendOutput["direction"] {
+  const score = (key: string, weight: number): number => {
+    const direction = metrics.find((m) => m.metric === key)?.direction;
+    return direction === "up" ? weight : direction === "down" ? -weight : 0;
+  };
+  const directions = metrics.map((m) => m.direction).filter(Boolean);
+  if (directions.length === 0 || directions.every((d) => d === "flat")) {
+    return "stable";
+  }
+
+  const total =
+    score(priceKey, 2) - score("averageDaysOnMarket", 1) - score("totalListings", 1);
+  if (total >= 2) return "heating";
+  if (total <= -2) return "cooling";
+  return "mixed";
+}
+
+function describeChange(metric: MarketTrendMetricOutput, label: string): string | null {
+  const percent = metric.yearOverYearPercent ?? metric.windowChangePercent;
+  if (percent == null) return null;
+  const sign = percent > 0 ? "+" : "";
+  const basis = metric.yearOverYearPercent != null ? "YoY" : "over the window";
+  return `${label} ${sign}${percent}% ${basis}`;
+}
+
+/**
+ * Analyze one side of a market (sale or rental); null without history
+ */
+export function analyzeMarketTrends(
+  stats: Record<string, any> | null | undefined,
+  side: "sale" | "rental",
+): MarketTrendOutput | null {
+  const series = toSeries(stats?.history);
+  if (series.length === 0) return null;
+
+  const definitions = side === "sale" ? SALE_TREND_METRICS : RENTAL_TREND_METRICS;
+  const metrics = definitions.map((metric) => analyzeMetric(series, metric));
+  const direction = marketDirection(metrics, definitions[0]!.key);
+
+  const changes = metrics
+    .map((metric, i) => describeChange(metric, definitions[i]!.label.toLowerCase()))
+    .filter((change): change is string => change !== null);
+  const from = series[0]!.month;
+  const to = series[series.length - 1]!.month;
+  const summary =
+    `${side === "sale" ? "Sale" : "Rental"} market ${direction} (${from} to ${to})` +
+    (changes.length > 0 ? `: ${changes.join(", ")}` : "");
+
+  return {
+    months: series.length,
+    from,
+    to,
+    metrics,
+    direction,
+    summary,
+  };
+}
+
+/**
+ * Display label for a trend metric key
+ */
+export function trendMetricLabel(key: string): string {
+  return (
+    [...SALE_TREND_METRICS, ...RENTAL_TREND_METRICS].find((m) => m.key === key)
+      ?.label ?? key
+  );
+}
@@ -0,0 +1,197 @@
+import {
+  PropertyRecord,
+  SaleListing,
+  RentalListing,
+  PropertyOutput,
+  ListingOutput,
+  MarketOutput,
+  MarketStatsOutput,
+  ComparableOutput,
+  ListingContactOutput,
+  ListingHistoryEventOutput,
+} from "../types/index.js";
+import { toNumber } from "./numbers.js";
+
+/**
+ * Normalizers
+ * Map raw Rentcast payloads onto the tool output schemas (structuredContent).
+ * Only known fields are copied so downstream agents get a stable shape.
+ */
+
+/**
+ * Drop undefined values so optional fields are omitted rather than present-but-undefined
+ */
+function compact<T extends Record<string, unknown>>(record: T): T {
+  return Object.fromEntries(
+    Object.entries(record).filter(([, value]) => value !== undefined),
+  ) as T;
+}
+
+function toString(value: unknown): string | undefined {
+  return value === null || value === undefined ? undefined : String(value);
+}
+
+function baseFields(raw: any) {
+  return {
+    id: toString(raw.id),
+    formattedAddress: toString(raw.formattedAddress ?? raw.address),
+    addressLine1: toString(raw.addressLine1),
+    addressLine2: toString(raw.addressLine2),
+    city: toString(raw.city),
+    state: toString(raw.state),
+    zipCode: toString(raw.zipCode),
+    county: toString(raw.county),
+    latitude: toNumber(raw.latitude),
+    longitude: toNumber(raw.longitude),
+    propertyType: toString(raw.propertyType),
+    bedrooms: toNumber(raw.bedrooms),
+    bathrooms: toNumber(raw.bathrooms),
+    squareFootage: toNumber(raw.squareFootage),
+    lotSize: toNumber(raw.lotSize),
+    yearBuilt: toNumber(raw.yearBuilt),
+  };
+}
+
+/**
+ * Property record (/properties, /properties/random, /properties/{id})
+ */
+export function normalizeProperty(
+  raw: PropertyRecord | Record<string, any>,
+): PropertyOutput {
+  const record = raw as PropertyRecord;
+  return compact({
+    ...baseFields(record),
+    lastSaleDate: toString(record.lastSaleDate),
+    lastSalePrice: toNumber(record.lastSalePrice),
+    hoaFee: toNumber(record.hoa?.fee),
+    ownerOccupied:
+      typeof record.ownerOccupied === "boolean"
+        ? record.ownerOccupied
+        : undefined,
+  });
+}
+
+/**
+ * Sale or rental listing; rental listings carry the monthly rent in `price`
+ */
+export function normalizeListing(
+  raw: SaleListing | RentalListing | Record<string, any>,
+): ListingOutput {
+  const listing = raw as Partial<SaleListing> & Partial<RentalListing>;
+  return compact({
+    ...baseFields(listing),
+    status: toString(listing.status),
+    price: toNumber(listing.price ?? listing.rent),
+    listingType: toString(listing.listingType),
+    listedDate: toString(listing.listedDate),
+    removedDate: toString(listing.removedDate),
+    daysOnMarket: toNumber(listing.daysOnMarket),
+    mlsName: toString(listing.mlsName),
+    mlsNumber: toString(listing.mlsNumber),
+  });
+}
+
+function normalizeContact(raw: any): ListingContactOutput | undefined {
+  if (!raw) return undefined;
+  return compact({
+    name: toString(raw.name),
+    phone: toString(raw.phone),
+    email: toString(raw.email),
+    website: toString(raw.website),
+  });
+}
+
+/**
+ * Listing history keyed by date, newest first
+ */
+export function normalizeListingHistory(
+  history: Record<string, any> | null | undefined,
+): ListingHistoryEventOutput[] {
+  if (!history) return [];
+  return Object.entries(history)
+    .map(([date, entry]) =>
+      compact({
+        date,
+        event: toString(entry?.event),
+        price: toNumber(entry?.price ?? entry?.rent),
+        listingType: toString(entry?.listingType),
+        listedDate: toString(entry?.listedDate),
+        removedDate: toString(entry?.removedDate),
+        daysOnMarket: toNumber(entry?.daysOnMarket),
+      }),
+    )
+    .sort((a, b) => b.date.localeCompare(a.date));
+}
+
+/**
+ * Listing detail (/listings/sale/{id}, /listings/rental/long-term/{id})
+ * including agent/office contacts and full history
+ */
+export function normalizeListingDetail(
+  raw: SaleListing | RentalListing | Record<string, any>,
+) {
+  const listing = raw as Partial<SaleListing> & Partial<RentalListing>;
+  return compact({
+    ...normalizeListing(listing),
+    listingAgent: normalizeContact(listing.listingAgent),
+    listingOffice: normalizeContact(listing.listingOffice),
+    history: normalizeListingHistory(listing.history),
+  });
+}
+
+function normalizeMarketStats(raw: any): MarketStatsOutput | undefined {
+  if (!raw) return undefined;
+  return compact({
+    averagePrice: toNumber(raw.averagePrice),
+    medianPrice: toNumber(raw.medianPrice),
+    averagePricePerSquareFoot: toNumber(raw.averagePricePerSquareFoot),
+    averageRent: toNumber(raw.averageRent),
+    medianRent: toNumber(raw.medianRent),
+    averageRentPerSquareFoot: toNumber(raw.averageRentPerSquareFoot),
+    averageDaysOnMarket: toNumber(raw.averageDaysOnMarket),
+    newListings: toNumber(raw.newListings),
+    totalListings: toNumber(raw.totalListings),
+    lastUpdatedDate: toString(raw.lastUpdatedDate),
+  });
+}
+
+/**
+ * Market statistics (/markets), current month only
+ */
+export function normalizeMarket(raw: Record<string, any>): MarketOutput {
+  return compact({
+    zipCode: toString(raw.zipCode),
+    city: toString(raw.city),
+    state: toString(raw.state),
+    saleData: normalizeMarketStats(raw.saleData),
+    rentalData: normalizeMarketStats(raw.rentalData),
+  });
+}
+
+/**
+ * AVM comparable (value or rent); rent comparables may use `rent`/`address`
+ */
+export function normalizeComparable(raw: Record<string, any>): ComparableOutput {
+  const price = toNumber(raw.price ?? raw.rent);
+  const squareFootage = toNumber(raw.squareFootage);
+  return compact({
+    id: toString(raw.id),
+    formattedAddress: toString(raw.formattedAddress ?? raw.address),
+    price,
+    propertyType: toString(raw.propertyType),
+    bedrooms: toNumber(raw.bedrooms),
+    bathrooms: toNumber(raw.bathrooms),
+    squareFootage,
+    pricePerSquareFoot:
+      price !== undefined && squareFootage
+        ? Math.round((price / squareFootage) * 100) / 100
+        : undefined,
+    // Rentcast reports comparable distance in miles
+    distance: toNumber(raw.distance),
+    correlation: toNumber(raw.correlation),
+    daysOnMarket: toNumber(raw.daysOnMarket),
+    daysOld: toNumber(raw.daysOld),
+    status: toString(raw.status),
+    listingType: toString(raw.listingType),
+  });
+}
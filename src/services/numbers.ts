@@ -0,0 +1,21 @@
+/**
+ * Numeric helpers shared by the normalizers and analysis services
+ */
+
+/**
+ * Coerce a raw API value to a number; null, empty and non-numeric values
+ * become undefined
+ */
+export function toNumber(value: unknown): number | undefined {
+  if (value === null || value === undefined || value === "") return undefined;
+  const num = Number(value);
+  return isNaN(num) ? undefined : num;
+}
+
+/**
+ * Round to a fixed number of decimal places
+ */
+export function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,116 @@
+import { createHash } from "node:crypto";
+import { ApiCallResult } from "../types/index.js";
+import { normalizeParams } from "./response-cache.js";
+
+/**
+ * One upstream page request
+ */
+export interface PageRequest {
+  offset: number;
+  limit: number;
+}
+
+export interface PaginationOptions {
+  startOffset: number;
+  pageSize: number;
+  maxResults: number;
+  maxPages: number;
+}
+
+/**
+ * Items collected across pages.
+ * `nextOffset` is null when Rentcast has no more results.
+ * `failure` is set when a page failed; items holds whatever came before it.
+ */
+export interface PagedResult {
+  items: any[];
+  pagesFetched: number;
+  nextOffset: number | null;
+  failure?: ApiCallResult;
+}
+
+/**
+ * Walk Rentcast's offset parameter until maxResults items are collected,
+ * a short page signals the end, or the per-invocation page cap is hit
+ */
+export async function fetchPages(
+  fetchPage: (page: PageRequest) => Promise<ApiCallResult>,
+  options: PaginationOptions,
+): Promise<PagedResult> {
+  const items: any[] = [];
+  let offset = options.startOffset;
+  let pagesFetched = 0;
+
+  while (items.length < options.maxResults && pagesFetched < options.maxPages) {
+    const limit = Math.min(options.pageSize, options.maxResults - items.length);
+    const result = await fetchPage({ offset, limit });
+
+    if (!result.success) {
+      return { items, pagesFetched, nextOffset: offset, failure: result };
+    }
+
+    pagesFetched += 1;
+    const page = Array.isArray(result.data) ? result.data : [];
+    items.push(...page);
+    offset += page.length;
+
+    // A short page means Rentcast has nothing further
+    if (page.length < limit) {
+      return { items, pagesFetched, nextOffset: null };
+    }
+  }
+
+  return { items, pagesFetched, nextOffset: offset };
+}
+
+// ========================================
+// 🔖 CONTINUATION CURSORS
+// ========================================
+
+interface CursorState {
+  scope: string;
+  offset: number;
+}
+
+/**
+ * Fingerprint of an endpoint + filter set; a cursor is only valid for the
+ * same search it came from. Paging fields are excluded.
+ */
+export function cursorScope(
+  endpoint: string,
+  filters: Record<string, any>,
+): string {
+  const { limit, offset, cursor, maxResults, ...rest } = filters;
+  return createHash("sha256")
+    .update(`${endpoint}?${JSON.stringify(normalizeParams(rest))}`)
+    .digest("hex")
+    .slice(0, 16);
+}
+
+export function encodeCursor(scope: string, offset: number): string {
+  const state: CursorState = { scope, offset };
+  return Buffer.from(JSON.stringify(state)).toString("base64url");
+}
+
+/**
+ * Decode a cursor and return its offset; throws if it is malformed or
+ * belongs to a different search
+ */
+export function decodeCursor(cursor: string, scope: string): number {
+  let state: Partial<CursorState>;
+  try {
+    state = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new Error("Invalid cursor: not a cursor returned by this server");
+  }
+
+  if (typeof state.offset !== "number" || state.offset < 0) {
+    throw new Error("Invalid cursor: not a cursor returned by this server");
+  }
+  if (state.scope !== scope) {
+    throw new Error(
+      "Invalid cursor: it belongs to a different search; repeat the original filters or drop the cursor",
+    );
+  }
+  return state.offset;
+}
@@ -0,0 +1,177 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import {
+  PortfolioProperty,
+  PortfolioPropertySchema,
+  PortfolioPropertyResultOutput,
+} from "../types/index.js";
+import { round } from "./numbers.js";
+
+/**
+ * Portfolio
+ * Input loading (inline JSON or CSV), a per-batch API call ceiling and
+ * portfolio totals for batch valuation
+ */
+
+const NUMERIC_COLUMNS = new Set([
+  "latitude",
+  "longitude",
+  "bedrooms",
+  "bathrooms",
+  "squareFootage",
+]);
+
+/**
+ * Split CSV text into rows of fields (RFC 4180: quoted fields may contain
+ * commas, newlines and doubled quotes)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.some((value) => value.trim() !== ""));
+}
+
+/**
+ * Turn CSV text with a header row into validated portfolio properties.
+ * Unknown columns are ignored; empty cells are treated as missing.
+ */
+export function parsePortfolioCsv(text: string): PortfolioProperty[] {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ""));
+  if (!header) {
+    throw new Error("CSV file is empty");
+  }
+  const columns = header.map((name) => name.trim());
+  const known = Object.keys(PortfolioPropertySchema.shape);
+  if (!columns.some((name) => known.includes(name))) {
+    throw new Error(
+      `CSV header has none of the expected columns (${known.join(", ")})`,
+    );
+  }
+
+  return rows.map((values, rowIndex) => {
+    const record: Record<string, unknown> = {};
+    columns.forEach((name, i) => {
+      const value = values[i]?.trim();
+      if (!known.includes(name) || value === undefined || value === "") return;
+      record[name] = NUMERIC_COLUMNS.has(name) ? Number(value) : value;
+    });
+
+    const parsed = PortfolioPropertySchema.safeParse(record);
+    if (!parsed.success) {
+      const details = parsed.error.errors
+        .map((e) => `${e.path.join(".")}: ${e.message}`)
+        .join(", ");
+      // +2: 1-based line numbers, after the header
+      throw new Error(`Invalid CSV row on line ${rowIndex + 2}: ${details}`);
+    }
+    return parsed.data;
+  });
+}
+
+/**
+ * Read a portfolio CSV. The path is resolved against `baseDir` and must
+ * stay inside it, so clients cannot read arbitrary files on the server.
+ */
+export async function loadPortfolioCsv(
+  csvPath: string,
+  baseDir: string,
+): Promise<PortfolioProperty[]> {
+  const root = path.resolve(baseDir);
+  const resolved = path.resolve(root, csvPath);
+  if (resolved !== root && !resolved.startsWith(root + path.sep)) {
+    throw new Error(`CSV path must be inside ${root} (BATCH_INPUT_DIR)`);
+  }
+  return parsePortfolioCsv(await readFile(resolved, "utf8"));
+}
+
+/**
+ * Per-batch ceiling on upstream calls. A slot is reserved before each call
+ * and settled afterwards against the attempts it actually made: cache hits
+ * and calls blocked by the rate limiter give the slot back, retries charge
+ * one slot per extra attempt.
+ */
+export class ApiCallMeter {
+  private used = 0;
+  private ceiling: number;
+
+  constructor(ceiling: number) {
+    this.ceiling = ceiling;
+  }
+
+  tryReserve(): boolean {
+    if (this.used >= this.ceiling) return false;
+    this.used++;
+    return true;
+  }
+
+  settle(attempts: number): void {
+    this.used = Math.max(0, this.used - 1 + attempts);
+  }
+
+  get callsUsed(): number {
+    return this.used;
+  }
+
+  get limit(): number {
+    return this.ceiling;
+  }
+}
+
+/**
+ * Sum values and rents across the portfolio; gross yield only counts
+ * properties that have both estimates
+ */
+export function summarizePortfolio(results: PortfolioPropertyResultOutput[]) {
+  const valued = results.filter((r) => r.value != null);
+  const rented = results.filter((r) => r.rent != null);
+  const both = results.filter((r) => r.value != null && r.rent != null);
+
+  const estimatedValue = valued.reduce((sum, r) => sum + r.value!, 0);
+  const monthlyRent = rented.reduce((sum, r) => sum + r.rent!, 0);
+  const bothValue = both.reduce((sum, r) => sum + r.value!, 0);
+  const bothAnnualRent = both.reduce((sum, r) => sum + r.rent! * 12, 0);
+
+  return {
+    estimatedValue: round(estimatedValue),
+    valuedProperties: valued.length,
+    monthlyRent: round(monthlyRent),
+    rentedProperties: rented.length,
+    annualRent: round(monthlyRent * 12),
+    grossYield: bothValue > 0 ? round((bothAnnualRent / bothValue) * 100) : null,
+  };
+}
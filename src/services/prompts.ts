@@ -0,0 +1,147 @@
+import { z } from "zod";
+import {
+  DEFAULT_MARKET_HISTORY_MONTHS,
+  UnderwriteRentalPromptArgs,
+  NeighborhoodBriefPromptArgs,
+  ListingDueDiligencePromptArgs,
+  RentPricingAdvicePromptArgs,
+} from "../types/index.js";
+
+/**
+ * Prompts
+ * Instruction text for the registered MCP prompts. Each one spells out the
+ * tool calls and the report layout so every analyst runs the same workflow.
+ */
+
+type PromptInput<T extends z.ZodRawShape> = z.infer<z.ZodObject<T>>;
+
+function numberedSteps(steps: string[]): string {
+  return steps.map((step, i) => `${i + 1}. ${step}`).join("\n");
+}
+
+/**
+ * Tool argument list, skipping arguments the user did not give
+ */
+function toolArgs(args: Record<string, string | number | undefined>): string {
+  return Object.entries(args)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) =>
+      typeof value === "number" ? `${key}: ${value}` : `${key}: "${value}"`,
+    )
+    .join(", ");
+}
+
+function optionalNumber(value: string | undefined): number | undefined {
+  return value === undefined ? undefined : Number(value);
+}
+
+export function underwriteRentalPrompt(
+  args: PromptInput<typeof UnderwriteRentalPromptArgs>,
+): string {
+  const assumptions = toolArgs({
+    address: args.address,
+    purchasePrice: optionalNumber(args.purchasePrice),
+    downPaymentPercent: optionalNumber(args.downPaymentPercent),
+    interestRate: optionalNumber(args.interestRate),
+  });
+
+  return `Underwrite ${args.address} as a long-term rental.
+
+${numberedSteps([
+  `Call \`get_property_value\` with { address: "${args.address}" } for the value estimate and sale comparables.`,
+  `Call \`get_rent_estimates\` with { address: "${args.address}" } for the rent estimate and rental comparables.`,
+  `Call \`analyze_market\` with the property's ZIP code (from the address or the estimate's subject) and historyRange: ${DEFAULT_MARKET_HISTORY_MONTHS}.`,
+  `Call \`analyze_investment\` with { ${assumptions} } for cap rate, cash-on-cash return, cash flow and DSCR.`,
+])}
+
+Then write the underwriting memo:
+- **Verdict**: buy, negotiate or pass, in one sentence.
+- **Value and rent**: estimates with ranges, and how tight the comparables are.
+- **Returns**: cap rate, cash-on-cash return, monthly cash flow and DSCR, with the assumptions used.
+- **Market**: sale and rent trends in the ZIP code and what they mean for this deal.
+- **Risks**: tool warnings, weak comparables and anything else that needs checking.
+
+Only use numbers returned by the tools. If a call fails, say which one and continue with what you have.`;
+}
+
+export function neighborhoodBriefPrompt(
+  args: PromptInput<typeof NeighborhoodBriefPromptArgs>,
+): string {
+  const audience = args.audience ?? "investor";
+  const focus = {
+    buyer: "affordability, price trends and how fast homes sell",
+    renter: "typical rents by size, rent trends and how much is available",
+    investor: "gross rent yield, price and rent momentum, and liquidity",
+  }[audience];
+
+  return `Write a neighborhood brief for ZIP code ${args.zipCode}, for a ${audience}.
+
+${numberedSteps([
+  `Call \`analyze_market\` with { zipCode: "${args.zipCode}", historyRange: ${DEFAULT_MARKET_HISTORY_MONTHS} }.`,
+  `Call \`get_rental_listings\` with { zipCode: "${args.zipCode}", status: "Active", limit: 20 } for current asking rents.`,
+  `Call \`get_sale_listings\` with { zipCode: "${args.zipCode}", status: "Active", limit: 20 } for current asking prices.`,
+])}
+
+Then write the brief:
+- **Snapshot**: median price, median rent, price and rent per square foot, days on market and inventory.
+- **Trends**: the year-over-year direction of prices, rents and inventory.
+- **Current listings**: asking price and rent ranges, and how they compare to the market medians.
+- **Takeaway for a ${audience}**: focus on ${focus}.
+
+Keep it under 300 words and only use numbers returned by the tools.`;
+}
+
+export function listingDueDiligencePrompt(
+  args: PromptInput<typeof ListingDueDiligencePromptArgs>,
+): string {
+  const listingType = args.listingType ?? "sale";
+  const isRental = listingType === "rental";
+  const estimateTool = isRental ? "get_rent_estimates" : "get_property_value";
+  const comparableSearch = isRental ? "get_rental_listings" : "get_sale_listings";
+
+  return `Run due diligence on ${listingType} listing ${args.listingId}.
+
+${numberedSteps([
+  `Call \`get_listing_details\` with { id: "${args.listingId}", listingType: "${listingType}" } for the listing, contacts and its price history timeline.`,
+  `Call \`${estimateTool}\` with { listingId: "${args.listingId}", listingType: "${listingType}" } to compare the asking ${isRental ? "rent" : "price"} with the AVM estimate.`,
+  `Call \`analyze_market\` with the listing's ZIP code and historyRange: ${DEFAULT_MARKET_HISTORY_MONTHS}.`,
+  `Call \`${comparableSearch}\` with the listing's address, radius: 1, status: "Active" and the same bedroom count, to see the competition.`,
+])}
+
+Then report:
+- **Pricing**: asking ${isRental ? "rent" : "price"} vs. the estimate and its range, as a percent above or below.
+- **History**: price changes, relistings and days on market from the timeline, and what they suggest about the seller.
+- **Competition**: how the listing compares to similar active listings nearby.
+- **Market**: whether the ZIP code is heating or cooling.
+- **Questions to ask**: anything the listing agent should clarify.
+
+Only use numbers returned by the tools.`;
+}
+
+export function rentPricingAdvicePrompt(
+  args: PromptInput<typeof RentPricingAdvicePromptArgs>,
+): string {
+  const unit = toolArgs({
+    address: args.address,
+    propertyType: args.propertyType,
+    bedrooms: optionalNumber(args.bedrooms),
+    bathrooms: optionalNumber(args.bathrooms),
+    squareFootage: optionalNumber(args.squareFootage),
+  });
+
+  return `Recommend an asking rent for ${args.address}.
+
+${numberedSteps([
+  `Call \`get_rent_estimates\` with { ${unit}, comparablesLimit: 10 }.`,
+  `Call \`get_rental_listings\` with { address: "${args.address}", radius: 1, status: "Active"${args.bedrooms !== undefined ? `, bedrooms: ${Number(args.bedrooms)}` : ""} } for the current competition.`,
+  `Call \`analyze_market\` with the unit's ZIP code, dataType: "Rental" and historyRange: ${DEFAULT_MARKET_HISTORY_MONTHS}.`,
+])}
+
+Then give the recommendation:
+- **Asking rent**: one number, plus a range from quick-lease to top-of-market.
+- **Evidence**: the estimate and its range, comparable rents per square foot and active listings nearby.
+- **Market timing**: rent trend and days on market in the ZIP code, and whether to price above or below the estimate.
+- **Tips**: concessions or features that would justify the upper end.
+
+Only use numbers returned by the tools.`;
+}
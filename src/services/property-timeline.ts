@@ -0,0 +1,186 @@
+import { TimelineEventOutput } from "../types/index.js";
+import { round, toNumber } from "./numbers.js";
+
+/**
+ * Property Timeline
+ * Merges recorded sales, for-sale listing events and rental listing events
+ * from a Rentcast `history` map into one chronological timeline with price
+ * deltas against the previous event of the same category.
+ */
+
+type TimelineCategory = TimelineEventOutput["category"];
+type TimelineKind = TimelineEventOutput["kind"];
+
+interface RawEvent {
+  date: string;
+  category: TimelineCategory;
+  kind: TimelineKind;
+  event?: string;
+  price?: number;
+  daysOnMarket?: number;
+}
+
+// Same-day ordering: a listing ends before a sale closes or a new one starts
+const KIND_ORDER: Record<TimelineKind, number> = {
+  removed: 0,
+  sold: 1,
+  listed: 2,
+  price_change: 3,
+};
+
+function toDate(value: unknown): string | undefined {
+  if (typeof value !== "string" || value.length < 10) return undefined;
+  return value.slice(0, 10);
+}
+
+/**
+ * "Sale" is a recorded sale; "Sale Listing" / "Rental Listing" are listings.
+ * Unrecognised events fall back to the category of the record they came from.
+ */
+function categorize(
+  event: string | undefined,
+  fallback: TimelineCategory,
+): TimelineCategory {
+  const name = (event ?? "").toLowerCase();
+  if (name.includes("rental")) return "rental";
+  if (name.includes("listing")) return "listing";
+  if (name.includes("sale")) return "sale";
+  return fallback;
+}
+
+function expandEntry(
+  key: string,
+  entry: any,
+  fallback: TimelineCategory,
+): RawEvent[] {
+  const category = categorize(entry?.event, fallback);
+  const price = toNumber(entry?.price ?? entry?.rent);
+  const event = typeof entry?.event === "string" ? entry.event : undefined;
+  const base = {
+    category,
+    ...(event !== undefined && { event }),
+    ...(price !== undefined && { price }),
+  };
+
+  if (category === "sale") {
+    const date = toDate(entry?.date) ?? toDate(key) ?? key;
+    return [{ ...base, date, kind: "sold" }];
+  }
+
+  const events: RawEvent[] = [
+    {
+      ...base,
+      date: toDate(entry?.listedDate) ?? toDate(key) ?? key,
+      kind: "listed",
+    },
+  ];
+  const removedDate = toDate(entry?.removedDate);
+  if (removedDate) {
+    const daysOnMarket = toNumber(entry?.daysOnMarket);
+    events.push({
+      ...base,
+      date: removedDate,
+      kind: "removed",
+      ...(daysOnMarket !== undefined && { daysOnMarket }),
+    });
+  }
+  return events;
+}
+
+/**
+ * Build a chronological timeline (oldest first) for a property record or a
+ * sale/rental listing. `source` decides how events without a recognisable
+ * name are categorised and how the current listing itself is represented.
+ */
+export function buildPropertyTimeline(
+  raw: Record<string, any>,
+  source: "property" | "sale" | "rental",
+): TimelineEventOutput[] {
+  const fallback: TimelineCategory =
+    source === "property" ? "sale" : source === "sale" ? "listing" : "rental";
+
+  const history: Record<string, any> = raw.history ?? {};
+  const rawEvents = Object.entries(history).flatMap(([key, entry]) =>
+    expandEntry(key, entry, fallback),
+  );
+
+  // Records without a sale in history still carry lastSaleDate/lastSalePrice
+  const lastSaleDate = toDate(raw.lastSaleDate);
+  if (
+    source === "property" &&
+    lastSaleDate &&
+    !rawEvents.some((e) => e.kind === "sold" && e.date === lastSaleDate)
+  ) {
+    rawEvents.push(
+      ...expandEntry(
+        lastSaleDate,
+        { event: "Sale", price: raw.lastSalePrice },
+        "sale",
+      ),
+    );
+  }
+
+  // The current listing is normally in its own history; add it when it is not
+  const listedDate = toDate(raw.listedDate);
+  if (
+    source !== "property" &&
+    listedDate &&
+    !rawEvents.some((e) => e.kind === "listed" && e.date === listedDate)
+  ) {
+    rawEvents.push(
+      ...expandEntry(
+        listedDate,
+        {
+          price: raw.price ?? raw.rent,
+          listedDate: raw.listedDate,
+          removedDate: raw.removedDate,
+          daysOnMarket: raw.daysOnMarket,
+        },
+        fallback,
+      ),
+    );
+  }
+
+  rawEvents.sort(
+    (a, b) =>
+      a.date.localeCompare(b.date) || KIND_ORDER[a.kind] - KIND_ORDER[b.kind],
+  );
+
+  const lastPrice = new Map<TimelineCategory, number>();
+  const open = new Set<TimelineCategory>();
+
+  return rawEvents.map((entry) => {
+    const previousPrice = lastPrice.get(entry.category);
+
+    // A new price while the previous listing is still open is a price change
+    let kind = entry.kind;
+    if (
+      kind === "listed" &&
+      open.has(entry.category) &&
+      entry.price !== previousPrice
+    ) {
+      kind = "price_change";
+    }
+    if (kind === "removed") {
+      open.delete(entry.category);
+    } else if (entry.category !== "sale") {
+      open.add(entry.category);
+    }
+
+    const event: TimelineEventOutput = { ...entry, kind };
+    if (kind === "removed" || entry.price === undefined) return event;
+
+    lastPrice.set(entry.category, entry.price);
+    if (previousPrice === undefined) return event;
+
+    const priceChange = entry.price - previousPrice;
+    return {
+      ...event,
+      previousPrice,
+      priceChange,
+      ...(previousPrice !== 0 && {
+        percentChange: round((priceChange / previousPrice) * 100, 1),
+      }),
+    };
+  });
+}
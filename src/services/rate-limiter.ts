@@ -0,0 +1,101 @@
+import { BudgetExhaustion, BudgetStatus } from "../types/index.js";
+
+/**
+ * Options for the API call budget / rate limiter
+ */
+export interface RateLimiterOptions {
+  maxCallsPerSession: number;
+  enableRateLimiting: boolean;
+  ratePerMinute: number;
+  now?: () => number;
+}
+
+/**
+ * Rate Limiter
+ * Combines a per-minute token bucket with a hard cap on calls per session.
+ * Every upstream call must acquire a slot first; when none is available the
+ * caller gets a description of why instead of hitting the Rentcast API.
+ */
+export class RateLimiter {
+  private maxCallsPerSession: number;
+  private enableRateLimiting: boolean;
+  private ratePerMinute: number;
+  private now: () => number;
+
+  private callsMade = 0;
+  private tokens: number;
+  private lastRefill: number;
+
+  constructor(options: RateLimiterOptions) {
+    this.maxCallsPerSession = options.maxCallsPerSession;
+    this.enableRateLimiting = options.enableRateLimiting;
+    this.ratePerMinute = Math.max(1, options.ratePerMinute);
+    this.now = options.now ?? Date.now;
+
+    this.tokens = this.ratePerMinute;
+    this.lastRefill = this.now();
+  }
+
+  /**
+   * Try to reserve one upstream call.
+   * Returns null when the call may proceed, otherwise the reason it may not.
+   */
+  tryAcquire(): BudgetExhaustion | null {
+    if (this.callsMade >= this.maxCallsPerSession) {
+      return {
+        reason: "session_limit",
+        callsMade: this.callsMade,
+        maxCalls: this.maxCallsPerSession,
+      };
+    }
+
+    if (this.enableRateLimiting) {
+      this.refill();
+      if (this.tokens < 1) {
+        const msPerToken = 60_000 / this.ratePerMinute;
+        return {
+          reason: "rate_limit",
+          callsMade: this.callsMade,
+          maxCalls: this.maxCallsPerSession,
+          retryAfterMs: Math.ceil((1 - this.tokens) * msPerToken),
+        };
+      }
+      this.tokens -= 1;
+    }
+
+    this.callsMade += 1;
+    return null;
+  }
+
+  /**
+   * Current budget snapshot (does not consume anything)
+   */
+  getStatus(): BudgetStatus {
+    if (this.enableRateLimiting) {
+      this.refill();
+    }
+
+    return {
+      callsMade: this.callsMade,
+      maxCalls: this.maxCallsPerSession,
+      remainingCalls: Math.max(0, this.maxCallsPerSession - this.callsMade),
+      rateLimitingEnabled: this.enableRateLimiting,
+      ratePerMinute: this.ratePerMinute,
+      availableTokens: this.enableRateLimiting
+        ? Math.floor(this.tokens)
+        : this.ratePerMinute,
+    };
+  }
+
+  private refill(): void {
+    const now = this.now();
+    const elapsed = now - this.lastRefill;
+    if (elapsed <= 0) return;
+
+    this.tokens = Math.min(
+      this.ratePerMinute,
+      this.tokens + (elapsed * this.ratePerMinute) / 60_000,
+    );
+    this.lastRefill = now;
+  }
+}
@@ -0,0 +1,38 @@
+import { RecentEntity, RecentEntityKind } from "../types/index.js";
+
+/**
+ * Recent Entities
+ * Properties, listings and markets fetched in this session, most recent
+ * first, so MCP clients can list them as resources
+ */
+export class RecentEntities {
+  private maxEntries: number;
+  private entries = new Map<string, RecentEntity>();
+
+  constructor(maxEntries = 50) {
+    this.maxEntries = maxEntries;
+  }
+
+  /**
+   * Record a fetch; re-fetching an entity moves it to the front
+   */
+  record(kind: RecentEntityKind, id: string, title: string): void {
+    const key = `${kind}:${id}`;
+    this.entries.delete(key);
+    this.entries.set(key, { kind, id, title, fetchedAt: Date.now() });
+
+    if (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Entities of the given kind (or all), most recent first
+   */
+  list(kind?: RecentEntityKind): RecentEntity[] {
+    return [...this.entries.values()]
+      .filter((entry) => kind === undefined || entry.kind === kind)
+      .reverse();
+  }
+}
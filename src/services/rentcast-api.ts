@@ -1,28 +1,138 @@
-import { config } from "./config.js";
+import { config, redactApiKey } from "./config.js";
+import { RateLimiter } from "./rate-limiter.js";
+import { UsageTracker } from "./usage-tracker.js";
+import { ResponseCache } from "./response-cache.js";
+import { RecentEntities } from "./recent-entities.js";
+import { Cassette } from "./cassette.js";
+import { logger, redactParams } from "./logger.js";
+import {
+  budgetExhaustedError,
+  classifyHttpError,
+  classifyThrownError,
+} from "./api-errors.js";
+import {
+  RetryPolicy,
+  isRetryableError,
+  isRetryableStatus,
+  parseRetryAfter,
+} from "./retry-policy.js";
 import {
   RentcastProperty,
   RentcastMarket,
+  AVMControls,
   RentcastListing,
   RentcastAVM,
   ApiCallResult,
+  BudgetStatus,
+  CassetteMode,
+  EndpointStats,
+  PropertySearchParams,
+  ListingSearchParams,
+  RecentEntity,
+  RecentEntityKind,
 } from "../types/index.js";
 
+/**
+ * Per-instance overrides; anything omitted falls back to the server config
+ */
+export interface RentcastAPIServiceOptions {
+  apiKey?: string;
+  baseUrl?: string;
+  maxApiCallsPerSession?: number;
+  rateLimitPerMinute?: number;
+  cassetteMode?: CassetteMode;
+  cassetteDir?: string;
+  // Shared budget / rate limiter (e.g. one per authenticated client); when
+  // given, maxApiCallsPerSession and rateLimitPerMinute are ignored
+  rateLimiter?: RateLimiter;
+}
+
 /**
  * Rentcast API Service
- * Handles all API calls to Rentcast with proper error handling and rate limiting
+ * Handles all API calls to Rentcast with proper error handling and rate limiting.
+ * One instance per MCP session: each has its own API key, budget and usage stats.
  */
 export class RentcastAPIService {
   private apiKey: string;
   private baseUrl: string;
   private timeout: number;
+  private rateLimiter: RateLimiter;
+  private usage = new UsageTracker();
+  private recent = new RecentEntities();
+  private cache: ResponseCache | null;
+  private retryPolicy: RetryPolicy;
+  private cassette: Cassette | null;
+
+  constructor(options: RentcastAPIServiceOptions = {}) {
+    this.apiKey = options.apiKey ?? config.rentcastApiKey;
+    this.baseUrl = options.baseUrl ?? config.rentcastBaseUrl;
+    this.timeout = config.timeoutSeconds * 1000;
+    this.rateLimiter =
+      options.rateLimiter ??
+      new RateLimiter({
+        maxCallsPerSession:
+          options.maxApiCallsPerSession ?? config.maxApiCallsPerSession,
+        enableRateLimiting: config.enableRateLimiting,
+        ratePerMinute: options.rateLimitPerMinute ?? config.rateLimitPerMinute,
+      });
+    const cassetteMode = options.cassetteMode ?? config.cassetteMode;
+    this.cassette =
+      cassetteMode === "off"
+        ? null
+        : new Cassette({
+            mode: cassetteMode,
+            dir: options.cassetteDir ?? config.cassetteDir,
+            apiKey: this.apiKey,
+          });
+    // Cassettes are the source of truth while recording or replaying
+    this.cache =
+      config.enableCache && !this.cassette
+        ? new ResponseCache({
+            maxEntries: config.cacheMaxEntries,
+            cacheDir: config.cacheDir,
+            clientKey: this.apiKey,
+          })
+        : null;
+    this.retryPolicy = new RetryPolicy({
+      maxAttempts: config.maxRetryAttempts,
+      baseDelayMs: config.retryBaseDelayMs,
+      maxDelayMs: config.retryMaxDelayMs,
+    });
+  }
 
+  /**
+   * API key in use, masked for display
+   */
+  getRedactedApiKey(): string {
+    return redactApiKey(this.apiKey);
+  }
+
+  /**
+   * Current session budget and rate limit status
+   */
+  getBudgetStatus(): BudgetStatus {
+    return this.rateLimiter.getStatus();
+  }
 
+  /**
+   * Per-endpoint call statistics for this session
+   */
+  getUsageStats(): Record<string, EndpointStats> {
+    return this.usage.getStats();
+  }
 
-  constructor() {
-    this.apiKey = config.rentcastApiKey;
-    this.baseUrl = config.rentcastBaseUrl;
-    this.timeout = config.timeoutSeconds * 1000;
+  /**
+   * Properties, listings and markets fetched in this session, most recent first
+   */
+  getRecentEntities(kind?: RecentEntityKind): RecentEntity[] {
+    return this.recent.list(kind);
+  }
 
+  /**
+   * Milliseconds since this service was created
+   */
+  getUptimeMs(): number {
+    return this.usage.getUptimeMs();
   }
 
   /**
@@ -32,11 +142,110 @@ export class RentcastAPIService {
     endpoint: string,
     params: Record<string, any> = {},
   ): Promise<ApiCallResult> {
-    try {
+    // Serve repeated lookups from cache without spending quota
+    const cached = await this.cache?.get(endpoint, params);
+    if (cached) {
+      logger.debug("Rentcast cache hit", {
+        endpoint,
+        params: redactParams(params),
+      });
+      this.usage.recordCacheHit(endpoint);
+      return {
+        success: true,
+        data: cached.data,
+        cached: true,
+        cachedAt: cached.storedAt,
+        endpoint,
+        timestamp: Date.now(),
+      };
+    }
 
+    const result = await this.executeRequest(endpoint, params);
+    if (result.success && this.cache) {
+      await this.cache.set(endpoint, params, result.data);
+    }
+    return result;
+  }
 
+  /**
+   * Perform the HTTP call to Rentcast, retrying transient failures.
+   * Every attempt spends Rentcast quota, so each one must first acquire a
+   * slot from the session budget / rate limiter.
+   */
+  private async executeRequest(
+    endpoint: string,
+    params: Record<string, any>,
+  ): Promise<ApiCallResult> {
+    let attempt = 0;
+    while (true) {
+      const exhausted = this.rateLimiter.tryAcquire();
+      if (exhausted) {
+        logger.warn("Rentcast call blocked", {
+          endpoint,
+          params: redactParams(params),
+          attempt: attempt + 1,
+          reason: exhausted.reason,
+        });
+        this.usage.recordBlocked(endpoint);
+        return {
+          success: false,
+          error: budgetExhaustedError(exhausted),
+          budgetExhausted: exhausted,
+          endpoint,
+          timestamp: Date.now(),
+          ...(attempt > 0 && { attempts: attempt }),
+        };
+      }
+
+      attempt += 1;
+      const startedAt = Date.now();
+      const outcome = await this.attemptRequest(endpoint, params, attempt);
+      const result: ApiCallResult = { ...outcome.result, attempts: attempt };
+      this.usage.recordCall(endpoint, {
+        success: result.success,
+        latencyMs: Date.now() - startedAt,
+        ...(result.error !== undefined && { error: result.error.message }),
+      });
+
+      if (result.success || !outcome.retryable) {
+        return result;
+      }
+
+      const delay = this.retryPolicy.getDelay(attempt, outcome.retryAfterMs);
+      if (delay === null) {
+        return result;
+      }
+      logger.debug("Retrying Rentcast request", {
+        endpoint,
+        attempt,
+        delayMs: delay,
+      });
+      await this.retryPolicy.sleep(delay);
+    }
+  }
 
+  /**
+   * Single HTTP attempt; reports whether a failure is worth retrying
+   */
+  private async attemptRequest(
+    endpoint: string,
+    params: Record<string, any>,
+    attempt: number,
+  ): Promise<{
+    result: ApiCallResult;
+    retryable: boolean;
+    retryAfterMs?: number;
+  }> {
+    const startedAt = Date.now();
+    const logFields = () => ({
+      endpoint,
+      params: redactParams(params),
+      attempt,
+      latencyMs: Date.now() - startedAt,
+      ...(this.cassette && { cassette: this.cassette.mode }),
+    });
 
+    try {
       // Build URL with parameters
       const url = new URL(`${this.baseUrl}${endpoint}`);
       Object.entries(params).forEach(([key, value]) => {
@@ -45,43 +254,84 @@ export class RentcastAPIService {
         }
       });
 
-      // Make the request
-      const response = await fetch(url.toString(), {
-        method: "GET",
-        headers: {
-          "X-Api-Key": this.apiKey,
-          "Content-Type": "application/json",
-          "User-Agent": "Rentcast-MCP-Server/1.0.0",
-        },
-        signal: AbortSignal.timeout(this.timeout),
-      });
-
-
+      // Make the request (or serve it from a recording)
+      const response =
+        this.cassette?.mode === "replay"
+          ? await this.cassette.replay(endpoint, params)
+          : await fetch(url.toString(), {
+              method: "GET",
+              headers: {
+                "X-Api-Key": this.apiKey,
+                "Content-Type": "application/json",
+                "User-Agent": "Rentcast-MCP-Server/1.0.0",
+              },
+              signal: AbortSignal.timeout(this.timeout),
+            });
+
+      if (this.cassette?.mode === "record") {
+        await this.cassette.record(endpoint, params, response);
+      }
 
       if (!response.ok) {
         const errorText = await response.text();
+        const retryAfterMs =
+          response.status === 429 || response.status === 503
+            ? parseRetryAfter(response.headers.get("retry-after"))
+            : undefined;
+        const error = classifyHttpError(
+          response.status,
+          errorText,
+          retryAfterMs,
+        );
+        logger.warn("Rentcast error response", {
+          ...logFields(),
+          status: response.status,
+          errorType: error.type,
+          error: error.message,
+        });
         return {
-          success: false,
-          error: `API Error ${response.status}: ${errorText}`,
-          endpoint,
-          timestamp: Date.now(),
+          result: {
+            success: false,
+            error,
+            endpoint,
+            timestamp: Date.now(),
+          },
+          retryable: isRetryableStatus(response.status),
+          ...(retryAfterMs !== undefined && { retryAfterMs }),
         };
       }
 
       const data = await response.json();
+      logger.info("Rentcast response", {
+        ...logFields(),
+        status: response.status,
+        ...(Array.isArray(data) && { results: data.length }),
+      });
 
       return {
-        success: true,
-        data,
-        endpoint,
-        timestamp: Date.now(),
+        result: {
+          success: true,
+          data,
+          endpoint,
+          timestamp: Date.now(),
+        },
+        retryable: false,
       };
     } catch (error) {
+      const classified = classifyThrownError(error);
+      logger.warn("Rentcast request failed", {
+        ...logFields(),
+        errorType: classified.type,
+        error,
+      });
       return {
-        success: false,
-        error: error instanceof Error ? error.message : "Unknown error",
-        endpoint,
-        timestamp: Date.now(),
+        result: {
+          success: false,
+          error: classified,
+          endpoint,
+          timestamp: Date.now(),
+        },
+        retryable: isRetryableError(error),
       };
     }
   }
@@ -116,12 +366,21 @@ export class RentcastAPIService {
       city?: string;
       state?: string;
       dataType?: string;
+      historyRange?: number;
     } = {},
   ): Promise<ApiCallResult> {
     const result = await this.makeRequest<RentcastMarket[]>("/markets", {
       ...params,
       dataType: params.dataType || "All",
     });
+    const market = Array.isArray(result.data) ? result.data[0] : result.data;
+    if (result.success && market && params.zipCode) {
+      this.recent.record(
+        "market",
+        params.zipCode,
+        `Market ZIP ${params.zipCode}`,
+      );
+    }
     return result;
   }
 
@@ -138,7 +397,7 @@ export class RentcastAPIService {
       bedrooms?: number;
       bathrooms?: number;
       squareFootage?: number;
-    } = {},
+    } & AVMControls = {},
   ): Promise<ApiCallResult> {
     const result = await this.makeRequest<RentcastAVM>("/avm/value", params);
     return result;
@@ -157,7 +416,7 @@ export class RentcastAPIService {
       bedrooms?: number;
       bathrooms?: number;
       squareFootage?: number;
-    } = {},
+    } & AVMControls = {},
   ): Promise<ApiCallResult> {
     const result = await this.makeRequest<RentcastAVM>(
       "/avm/rent/long-term",
@@ -170,12 +429,7 @@ export class RentcastAPIService {
    * Get sale listings
    */
   async getSaleListings(
-    params: {
-      city?: string;
-      state?: string;
-      zipCode?: string;
-      limit?: number;
-    } = {},
+    params: ListingSearchParams = {},
   ): Promise<ApiCallResult> {
     const result = await this.makeRequest<RentcastListing[]>("/listings/sale", {
       ...params,
@@ -188,12 +442,7 @@ export class RentcastAPIService {
    * Get rental listings
    */
   async getRentalListings(
-    params: {
-      city?: string;
-      state?: string;
-      zipCode?: string;
-      limit?: number;
-    } = {},
+    params: ListingSearchParams = {},
   ): Promise<ApiCallResult> {
     const result = await this.makeRequest<RentcastListing[]>(
       "/listings/rental/long-term",
@@ -209,16 +458,7 @@ export class RentcastAPIService {
    * Search properties with filters
    */
   async searchProperties(
-    params: {
-      city?: string;
-      state?: string;
-      zipCode?: string;
-      bedrooms?: number;
-      bathrooms?: number;
-      propertyType?: string;
-      priceRange?: string;
-      limit?: number;
-    } = {},
+    params: PropertySearchParams = {},
   ): Promise<ApiCallResult> {
     const result = await this.makeRequest<RentcastProperty[]>("/properties", {
       ...params,
@@ -234,6 +474,7 @@ export class RentcastAPIService {
     const result = await this.makeRequest<RentcastListing>(
       `/listings/sale/${id}`,
     );
+    this.recordEntity("sale-listing", id, result);
     return result;
   }
 
@@ -244,6 +485,7 @@ export class RentcastAPIService {
     const result = await this.makeRequest<RentcastListing>(
       `/listings/rental/long-term/${id}`,
     );
+    this.recordEntity("rental-listing", id, result);
     return result;
   }
 
@@ -254,15 +496,22 @@ export class RentcastAPIService {
     const result = await this.makeRequest<RentcastProperty>(
       `/properties/${id}`,
     );
+    this.recordEntity("property", id, result);
     return result;
   }
 
-
-
-
-
-
+  /**
+   * Remember a successful single-entity lookup for resource listing
+   */
+  private recordEntity(
+    kind: RecentEntityKind,
+    id: string,
+    result: ApiCallResult,
+  ): void {
+    if (!result.success || !result.data) return;
+    this.recent.record(kind, id, result.data.formattedAddress || id);
+  }
 }
 
-// Export singleton instance
+// Export default instance (stdio transport / single-tenant use)
 export const rentcastAPI = new RentcastAPIService();
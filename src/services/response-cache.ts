@@ -0,0 +1,205 @@
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { resolveEndpointKey } from "./usage-tracker.js";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+/**
+ * Time-to-live per RENTCAST_ENDPOINTS key.
+ * Market stats, property records and AVMs change at most daily; listings
+ * move faster. Random properties are never cached (0).
+ */
+export const CACHE_TTL_MS: Record<string, number> = {
+  "properties/random": 0,
+  markets: 24 * HOUR,
+  "avm/value": 24 * HOUR,
+  "avm/rent/long-term": 24 * HOUR,
+  "listings/sale": 30 * MINUTE,
+  "listings/rental/long-term": 30 * MINUTE,
+  properties: 6 * HOUR,
+  "listings/sale/{id}": 1 * HOUR,
+  "listings/rental/long-term/{id}": 1 * HOUR,
+  "properties/{id}": 24 * HOUR,
+};
+
+export interface ResponseCacheOptions {
+  maxEntries: number;
+  cacheDir?: string;
+  // Credential identifying the client (its API key); hashed into every key
+  // so clients sharing a CACHE_DIR never see each other's entries
+  clientKey?: string;
+}
+
+export interface CacheEntry {
+  key: string;
+  endpoint: string;
+  data: any;
+  storedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Normalize request params so equivalent lookups share a cache key:
+ * drops empty values, sorts keys, trims/lowercases/collapses strings
+ */
+export function normalizeParams(
+  params: Record<string, any>,
+): Record<string, string> {
+  const normalized: Record<string, string> = {};
+  Object.keys(params)
+    .sort()
+    .forEach((key) => {
+      const value = params[key];
+      if (value === undefined || value === null || value === "") return;
+      normalized[key] =
+        typeof value === "string"
+          ? value.trim().replace(/\s+/g, " ").toLowerCase()
+          : String(value);
+    });
+  return normalized;
+}
+
+/**
+ * Build the cache key for an endpoint + params pair
+ */
+export function buildCacheKey(
+  endpoint: string,
+  params: Record<string, any>,
+): string {
+  return `${endpoint}?${JSON.stringify(normalizeParams(params))}`;
+}
+
+/**
+ * Response Cache
+ * In-memory LRU of successful Rentcast responses with per-endpoint TTLs,
+ * optionally mirrored to one JSON file per entry so it survives restarts
+ */
+export class ResponseCache {
+  private maxEntries: number;
+  private cacheDir: string | undefined;
+  private tenant: string;
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(options: ResponseCacheOptions) {
+    this.maxEntries = options.maxEntries;
+    this.cacheDir = options.cacheDir || undefined;
+    this.tenant = options.clientKey
+      ? createHash("sha256")
+          .update(options.clientKey)
+          .digest("hex")
+          .slice(0, 16)
+      : "";
+  }
+
+  /**
+   * TTL for an endpoint in milliseconds (0 = do not cache)
+   */
+  getTtl(endpoint: string): number {
+    return CACHE_TTL_MS[resolveEndpointKey(endpoint)] ?? 0;
+  }
+
+  /**
+   * Look up a fresh entry in memory, then on disk
+   */
+  async get(
+    endpoint: string,
+    params: Record<string, any>,
+  ): Promise<CacheEntry | null> {
+    if (this.getTtl(endpoint) <= 0) return null;
+
+    const key = this.keyFor(endpoint, params);
+    const entry = this.entries.get(key) ?? (await this.readFromDisk(key));
+    if (!entry) return null;
+
+    if (entry.expiresAt <= Date.now()) {
+      await this.delete(key);
+      return null;
+    }
+
+    // Refresh LRU position
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  /**
+   * Store a successful response
+   */
+  async set(
+    endpoint: string,
+    params: Record<string, any>,
+    data: any,
+  ): Promise<void> {
+    const ttl = this.getTtl(endpoint);
+    if (ttl <= 0) return;
+
+    const key = this.keyFor(endpoint, params);
+    const now = Date.now();
+    const entry: CacheEntry = {
+      key,
+      endpoint,
+      data,
+      storedAt: now,
+      expiresAt: now + ttl,
+    };
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.evict();
+    await this.writeToDisk(entry);
+  }
+
+  /**
+   * Number of entries currently held in memory
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private keyFor(endpoint: string, params: Record<string, any>): string {
+    const key = buildCacheKey(endpoint, params);
+    return this.tenant ? `${this.tenant}:${key}` : key;
+  }
+
+  private async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+    if (!this.cacheDir) return;
+    await fs.rm(this.filePath(key), { force: true }).catch(() => undefined);
+  }
+
+  private evict(): void {
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  private filePath(key: string): string {
+    const hash = createHash("sha256").update(key).digest("hex");
+    return path.join(this.cacheDir ?? "", `${hash}.json`);
+  }
+
+  private async readFromDisk(key: string): Promise<CacheEntry | null> {
+    if (!this.cacheDir) return null;
+    try {
+      const raw = await fs.readFile(this.filePath(key), "utf8");
+      const entry = JSON.parse(raw) as CacheEntry;
+      return entry.key === key ? entry : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async writeToDisk(entry: CacheEntry): Promise<void> {
+    if (!this.cacheDir) return;
+    try {
+      await fs.mkdir(this.cacheDir, { recursive: true });
+      await fs.writeFile(this.filePath(entry.key), JSON.stringify(entry));
+    } catch {
+      // Disk persistence is best effort; the in-memory entry still serves hits
+    }
+  }
+}
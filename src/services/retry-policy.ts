@@ -0,0 +1,102 @@
+/**
+ * Options for retrying transient Rentcast failures
+ */
+export interface RetryPolicyOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  random?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * HTTP statuses worth retrying: request timeout, rate limiting and
+ * transient server/gateway errors. Everything else (400, 401, 403, 404...)
+ * is permanent and returned immediately.
+ */
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+export function isRetryableStatus(status: number): boolean {
+  return RETRYABLE_STATUSES.has(status);
+}
+
+/**
+ * Thrown fetch errors that are worth retrying: AbortSignal timeouts and
+ * network-level failures (DNS, connection reset, refused...)
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  return (
+    error.name === "TimeoutError" ||
+    error.name === "AbortError" ||
+    (error.name === "TypeError" && /fetch failed|network/i.test(error.message))
+  );
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(
+  header: string | null,
+  now: number = Date.now(),
+): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header.trim());
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  if (!isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+
+  return undefined;
+}
+
+/**
+ * Retry Policy
+ * Jittered exponential backoff ("full jitter") that honours a server
+ * supplied Retry-After delay when present
+ */
+export class RetryPolicy {
+  readonly maxAttempts: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private random: () => number;
+  private sleepFn: (ms: number) => Promise<void>;
+
+  constructor(options: RetryPolicyOptions) {
+    this.maxAttempts = Math.max(1, options.maxAttempts);
+    this.baseDelayMs = Math.max(0, options.baseDelayMs);
+    this.maxDelayMs = Math.max(this.baseDelayMs, options.maxDelayMs);
+    this.random = options.random ?? Math.random;
+    this.sleepFn =
+      options.sleep ??
+      ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+  }
+
+  /**
+   * Delay before the next attempt, or null when we should give up.
+   * `attempt` is the 1-based number of the attempt that just failed.
+   */
+  getDelay(attempt: number, retryAfterMs?: number): number | null {
+    if (attempt >= this.maxAttempts) return null;
+
+    if (retryAfterMs !== undefined) {
+      // Waiting longer than our ceiling would stall the tool call; give up
+      return retryAfterMs <= this.maxDelayMs ? retryAfterMs : null;
+    }
+
+    const exponential = Math.min(
+      this.maxDelayMs,
+      this.baseDelayMs * 2 ** (attempt - 1),
+    );
+    return Math.round(this.random() * exponential);
+  }
+
+  sleep(ms: number): Promise<void> {
+    return ms > 0 ? this.sleepFn(ms) : Promise.resolve();
+  }
+}
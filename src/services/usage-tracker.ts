@@ -0,0 +1,94 @@
+import { RENTCAST_ENDPOINTS, EndpointStats } from "../types/index.js";
+
+/**
+ * Resolve a concrete request path (e.g. "/listings/sale/abc123") to its
+ * RENTCAST_ENDPOINTS key (e.g. "listings/sale/{id}")
+ */
+export function resolveEndpointKey(endpoint: string): string {
+  const path = endpoint.split("?")[0] ?? endpoint;
+
+  for (const [key, endpointConfig] of Object.entries(RENTCAST_ENDPOINTS)) {
+    const pattern = new RegExp(
+      `^${endpointConfig.path.replace(/\{[^}]+\}/g, "[^/]+")}$`,
+    );
+    if (pattern.test(path)) {
+      return key;
+    }
+  }
+
+  return path.replace(/^\//, "");
+}
+
+/**
+ * Usage Tracker
+ * Records per-endpoint call counts, errors and latency for get_server_status
+ */
+export class UsageTracker {
+  private startedAt = Date.now();
+  private stats = new Map<string, EndpointStats>();
+
+  /**
+   * Record a call that reached the Rentcast API
+   */
+  recordCall(
+    endpoint: string,
+    outcome: { success: boolean; latencyMs: number; error?: string },
+  ): void {
+    const entry = this.getEntry(endpoint);
+    entry.calls += 1;
+    entry.totalLatencyMs += outcome.latencyMs;
+    entry.averageLatencyMs = Math.round(entry.totalLatencyMs / entry.calls);
+
+    if (!outcome.success) {
+      entry.errors += 1;
+      entry.lastError = {
+        message: outcome.error ?? "Unknown error",
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Record a call served from the response cache
+   */
+  recordCacheHit(endpoint: string): void {
+    this.getEntry(endpoint).cacheHits += 1;
+  }
+
+  /**
+   * Record a call refused by the budget / rate limiter
+   */
+  recordBlocked(endpoint: string): void {
+    this.getEntry(endpoint).blocked += 1;
+  }
+
+  getStats(): Record<string, EndpointStats> {
+    return Object.fromEntries(
+      Array.from(this.stats.entries()).map(([key, value]) => [
+        key,
+        { ...value },
+      ]),
+    );
+  }
+
+  getUptimeMs(): number {
+    return Date.now() - this.startedAt;
+  }
+
+  private getEntry(endpoint: string): EndpointStats {
+    const key = resolveEndpointKey(endpoint);
+    let entry = this.stats.get(key);
+    if (!entry) {
+      entry = {
+        calls: 0,
+        errors: 0,
+        blocked: 0,
+        cacheHits: 0,
+        totalLatencyMs: 0,
+        averageLatencyMs: 0,
+      };
+      this.stats.set(key, entry);
+    }
+    return entry;
+  }
+}
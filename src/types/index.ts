@@ -189,21 +189,79 @@ export interface RentcastAVM {
 // 🎯 MCP TOOL SCHEMAS (Following MCP SDK patterns)
 // ========================================
 
+// ========================================
+// 🎛️ RANGE FILTERS
+// ========================================
+
+/**
+ * Rentcast range syntax: "min:max", with "*" for an open end
+ * (e.g. "2:4", "1500:*", "*:2000")
+ */
+export const RANGE_PATTERN = /^(\*|\d+(?:\.\d+)?):(\*|\d+(?:\.\d+)?)$/;
+
+/**
+ * Check that a range string is well-formed and min <= max
+ */
+export function isValidRange(value: string): boolean {
+  const match = RANGE_PATTERN.exec(value);
+  if (!match) return false;
+  const [, min, max] = match;
+  if (min === "*" && max === "*") return false;
+  if (min === "*" || max === "*") return true;
+  return Number(min) <= Number(max);
+}
+
+/**
+ * Filter that accepts an exact number or a Rentcast range string
+ */
+function numberOrRange(min: number, max: number, description: string) {
+  return z
+    .union([
+      z.number().min(min).max(max),
+      z
+        .string()
+        .trim()
+        .refine(isValidRange, {
+          message: "Expected a range like '2:4', '1500:*' or '*:2000' (min <= max)",
+        }),
+    ])
+    .optional()
+    .describe(description);
+}
+
+/**
+ * Filter that only accepts a Rentcast range string
+ */
+function rangeOnly(description: string) {
+  return z
+    .string()
+    .trim()
+    .refine(isValidRange, {
+      message: "Expected a range like '2:4', '1500:*' or '*:2000' (min <= max)",
+    })
+    .optional()
+    .describe(description);
+}
+
 export const PropertySearchSchema = z.object({
+  address: z.string().optional().describe("Full address to look up a specific property, or the center point for a radius search (e.g., '5500 Grand Lake Dr, San Antonio, TX 78244')"),
   city: z.string().optional().describe("City name for property search (e.g., 'Austin', 'New York')"),
   state: z.string().optional().describe("State abbreviation (e.g., 'TX', 'CA', 'NY')"),
   zipCode: z.string().optional().describe("ZIP code for location-based search (e.g., '78705', '90210')"),
-  bedrooms: z.number().min(0).max(10).optional().describe("Number of bedrooms (e.g., 1, 2, 3)"),
-  bathrooms: z
-    .number()
-    .min(0)
-    .max(10)
-    .optional()
-    .describe("Number of bathrooms (e.g., 1, 1.5, 2)"),
+  latitude: z.number().min(-90).max(90).optional().describe("Latitude of the center point for a radius search (requires longitude)"),
+  longitude: z.number().min(-180).max(180).optional().describe("Longitude of the center point for a radius search (requires latitude)"),
+  radius: z.number().positive().max(100).optional().describe("Search radius in miles around address or latitude/longitude (max: 100)"),
+  bedrooms: numberOrRange(0, 10, "Number of bedrooms, or a range (e.g., 3, '2:4', '3:*')"),
+  bathrooms: numberOrRange(0, 10, "Number of bathrooms, or a range (e.g., 1.5, '2:3', '*:2')"),
   propertyType: z
     .string()
     .optional()
     .describe("Property type (e.g., 'Single Family', 'Condo', 'Townhouse')"),
+  squareFootage: rangeOnly("Living area range in sqft (e.g., '1200:2000', '1500:*')"),
+  lotSize: rangeOnly("Lot size range in sqft (e.g., '5000:10000', '*:8000')"),
+  yearBuilt: rangeOnly("Year built range (e.g., '1990:2010', '2000:*')"),
+  saleDateRange: rangeOnly("Days since the property last sold (e.g., '*:365' for sold within the last year)"),
+  priceRange: rangeOnly("Last sale price range in dollars (e.g., '200000:400000', '*:300000')"),
   limit: z
     .number()
     .min(1)
@@ -212,8 +270,46 @@ export const PropertySearchSchema = z.object({
     .describe(
       "Maximum number of properties to return (default: 15, max: 50 for free tier)",
     ),
+  offset: z.number().int().min(0).optional().describe("Number of results to skip, for paging through larger result sets (default: 0)"),
+  maxResults: z
+    .number()
+    .int()
+    .min(1)
+    .max(500)
+    .optional()
+    .describe("Auto-paging: total results to collect across pages of `limit` each (default: one page; upstream calls per invocation are capped by MAX_PAGES_PER_CALL)"),
+  cursor: z.string().optional().describe("Continuation cursor (nextCursor from a previous response with the same filters) to fetch the next page"),
 });
 
+/**
+ * Parameters accepted by RentcastAPIService.searchProperties
+ */
+export interface PropertySearchParams {
+  address?: string;
+  city?: string;
+  state?: string;
+  zipCode?: string;
+  latitude?: number;
+  longitude?: number;
+  radius?: number;
+  bedrooms?: number | string;
+  bathrooms?: number | string;
+  propertyType?: string;
+  squareFootage?: string;
+  lotSize?: string;
+  yearBuilt?: string;
+  saleDateRange?: string;
+  priceRange?: string;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Months of market history requested by default: 13 covers the latest month
+ * and the same month a year earlier, so trends include year-over-year
+ */
+export const DEFAULT_MARKET_HISTORY_MONTHS = 13;
+
 export const MarketAnalysisSchema = z.object({
   zipCode: z.string().optional().describe("ZIP code for market analysis"),
   city: z.string().optional().describe("City name for market analysis"),
@@ -225,10 +321,108 @@ export const MarketAnalysisSchema = z.object({
     .enum(["All", "Sale", "Rental"])
     .default("All")
     .describe("Type of market data to analyze"),
+  historyRange: z
+    .number()
+    .int()
+    .min(1)
+    .max(60)
+    .default(DEFAULT_MARKET_HISTORY_MONTHS)
+    .describe(
+      `Months of monthly history to analyze for trends (default: ${DEFAULT_MARKET_HISTORY_MONTHS}, enough for a year-over-year comparison)`,
+    ),
 });
 
+export const MARKET_COMPARISON_METRICS = [
+  "grossRentYield",
+  "medianPrice",
+  "medianRent",
+  "pricePerSquareFoot",
+  "daysOnMarket",
+  "inventory",
+] as const;
+
+export type MarketComparisonMetric = (typeof MARKET_COMPARISON_METRICS)[number];
+
+export const CompareMarketsSchema = z.object({
+  zipCodes: z
+    .array(z.string().regex(/^\d{5}$/, "ZIP codes must be 5 digits"))
+    .min(2)
+    .max(20)
+    .describe("ZIP codes to compare (2-20); duplicates are ignored"),
+  sortBy: z
+    .enum(MARKET_COMPARISON_METRICS)
+    .default("grossRentYield")
+    .describe(
+      "Ranking metric: grossRentYield (annual median rent / median price), medianPrice, medianRent, pricePerSquareFoot, daysOnMarket or inventory (sale listings)",
+    ),
+  order: z
+    .enum(["asc", "desc"])
+    .default("desc")
+    .describe("Sort order (default: desc, highest first)"),
+});
+
+/**
+ * Rentcast comparable-selection controls shared by the AVM endpoints
+ */
+const AVMControlFields = {
+  maxRadius: z
+    .number()
+    .positive()
+    .max(100)
+    .optional()
+    .describe("Maximum distance in miles between the subject and its comparables (Rentcast default applies when omitted)"),
+  daysOld: z
+    .number()
+    .int()
+    .min(1)
+    .max(3650)
+    .optional()
+    .describe("Only use comparables seen within this many days"),
+  compCount: z
+    .number()
+    .int()
+    .min(5)
+    .max(25)
+    .optional()
+    .describe("Number of comparables Rentcast uses for the estimate, 5-25 (default: 15)"),
+  lookupSubjectAttributes: z
+    .boolean()
+    .optional()
+    .describe("Let Rentcast look up the subject's attributes from its records (default: true); set false to value exactly the attributes given"),
+};
+
+/**
+ * Comparable-selection settings sent to Rentcast, echoed so a valuation can
+ * be reproduced
+ */
+export interface AVMControls {
+  maxRadius?: number;
+  daysOld?: number;
+  compCount?: number;
+  lookupSubjectAttributes?: boolean;
+}
+
+/**
+ * How AVM tools present comparables (does not change which comps Rentcast picks)
+ */
+const ComparableDisplayFields = {
+  comparablesLimit: z
+    .number()
+    .int()
+    .min(1)
+    .max(25)
+    .default(5)
+    .describe("Comparables to show in the text summary (default: 5; structured output has all)"),
+  sortComparablesBy: z
+    .enum(["correlation", "distance", "pricePerSquareFoot"])
+    .default("correlation")
+    .describe("Comparable order: correlation (best match first), distance (nearest first) or pricePerSquareFoot (highest first)"),
+};
+
 export const AVMSchema = z.object({
-  propertyId: z.string().optional().describe("Property ID for valuation"),
+  propertyId: z.string().optional().describe("Property ID for valuation; missing attributes are filled in from the property record"),
+  listingId: z.string().optional().describe("Sale or rental listing ID; missing attributes are filled in from the listing"),
+  listingType: z.enum(["sale", "rental"]).optional().describe("Which kind of listing listingId refers to (default: sale)"),
   address: z.string().optional().describe("Property address for valuation"),
   latitude: z.number().optional().describe("Property latitude coordinate"),
   longitude: z.number().optional().describe("Property longitude coordinate"),
@@ -241,6 +435,46 @@ export const AVMSchema = z.object({
     .optional()
     .describe("Number of bathrooms"),
   squareFootage: z.number().optional().describe("Property square footage"),
+  ...AVMControlFields,
+  ...ComparableDisplayFields,
+});
+
+/**
+ * One property in a batch valuation (inline JSON item or CSV row)
+ */
+export const PortfolioPropertySchema = z.object({
+  label: z.string().optional().describe("Your own reference for this property (e.g. unit or asset ID)"),
+  address: z.string().optional().describe("Full property address"),
+  propertyId: z.string().optional().describe("Rentcast property ID (attributes are looked up, one extra call)"),
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
+  propertyType: z.string().optional(),
+  bedrooms: z.number().min(0).optional(),
+  bathrooms: z.number().min(0).optional(),
+  squareFootage: z.number().positive().optional(),
+});
+
+export const BatchValuationSchema = z.object({
+  properties: z
+    .array(PortfolioPropertySchema)
+    .max(500)
+    .optional()
+    .describe("Properties to value (max 500); each needs address, latitude + longitude, or propertyId"),
+  csvPath: z
+    .string()
+    .optional()
+    .describe("Path to a CSV file inside BATCH_INPUT_DIR with a header row using the property field names (address, propertyId, latitude, longitude, propertyType, bedrooms, bathrooms, squareFootage, label)"),
+  estimates: z
+    .enum(["both", "value", "rent"])
+    .default("both")
+    .describe("Which AVMs to run per property (default: both, 2 calls per property)"),
+  maxApiCalls: z
+    .number()
+    .int()
+    .min(1)
+    .max(1000)
+    .optional()
+    .describe("Ceiling on upstream API calls for this batch (default: MAX_BATCH_API_CALLS); cached results do not count"),
 });
 
 export const RandomPropertiesSchema = z.object({
@@ -264,6 +498,16 @@ export const ListingSearchSchema = z.object({
   city: z.string().optional().describe("City for listing search (e.g., 'Austin', 'New York', 'Los Angeles')"),
   state: z.string().optional().describe("State for listing search (e.g., 'TX', 'NY', 'CA')"),
   zipCode: z.string().optional().describe("ZIP code for listing search (e.g., '78705', '10001', '90210')"),
+  address: z.string().optional().describe("Center address for a radius search (e.g., '1011 W 23rd St, Austin, TX 78705')"),
+  latitude: z.number().min(-90).max(90).optional().describe("Latitude of the center point for a radius search (requires longitude)"),
+  longitude: z.number().min(-180).max(180).optional().describe("Longitude of the center point for a radius search (requires latitude)"),
+  radius: z.number().positive().max(100).optional().describe("Search radius in miles around address or latitude/longitude (max: 100)"),
+  propertyType: z.string().optional().describe("Property type (e.g., 'Single Family', 'Condo', 'Townhouse', 'Apartment')"),
+  bedrooms: numberOrRange(0, 10, "Number of bedrooms, or a range (e.g., 3, '2:4', '3:*')"),
+  bathrooms: numberOrRange(0, 10, "Number of bathrooms, or a range (e.g., 2, '1.5:*')"),
+  price: numberOrRange(0, 1_000_000_000, "List price (sale) or monthly rent (rental), exact or range (e.g., '*:2500', '300000:450000')"),
+  status: z.enum(["Active", "Inactive"]).optional().describe("Listing status (default: any)"),
+  daysOld: numberOrRange(0, 100_000, "Days since the listing was first seen, exact or range (e.g., '*:30' for listed in the last month)"),
   limit: z
     .number()
     .min(1)
@@ -272,8 +516,38 @@ export const ListingSearchSchema = z.object({
     .describe(
       "Maximum number of listings to return (default: 15, max: 50 for free tier)",
     ),
+  offset: z.number().int().min(0).optional().describe("Number of results to skip, for paging through larger result sets (default: 0)"),
+  maxResults: z
+    .number()
+    .int()
+    .min(1)
+    .max(500)
+    .optional()
+    .describe("Auto-paging: total results to collect across pages of `limit` each (default: one page; upstream calls per invocation are capped by MAX_PAGES_PER_CALL)"),
+  cursor: z.string().optional().describe("Continuation cursor (nextCursor from a previous response with the same filters) to fetch the next page"),
 });
 
+/**
+ * Parameters accepted by RentcastAPIService.getSaleListings / getRentalListings
+ */
+export interface ListingSearchParams {
+  city?: string;
+  state?: string;
+  zipCode?: string;
+  address?: string;
+  latitude?: number;
+  longitude?: number;
+  radius?: number;
+  propertyType?: string;
+  bedrooms?: number | string;
+  bathrooms?: number | string;
+  price?: number | string;
+  status?: "Active" | "Inactive";
+  daysOld?: number | string;
+  limit?: number;
+  offset?: number;
+}
+
 export const PropertyDetailSchema = z.object({
   id: z.string().describe("Property or listing ID for detailed information"),
 });
@@ -285,6 +559,465 @@ export const ListingTypeSchema = z.object({
   listingType: z.enum(["sale", "rental"]).describe("Type of listing - must be either 'sale' or 'rental'"),
 });
 
+/**
+ * Schema for listing detail lookups (sale or long-term rental)
+ */
+export const ListingDetailSchema = ListingTypeSchema.extend({
+  id: z.string().describe("Listing ID from get_sale_listings / get_rental_listings (e.g., '3821-Hargis-St,-Austin,-TX-78723')"),
+});
+
+// ========================================
+// 💬 MCP PROMPT ARGUMENTS
+// ========================================
+// Prompt arguments always arrive as strings; numbers are validated as text
+
+const promptNumber = (description: string) =>
+  z
+    .string()
+    .regex(/^\d+(\.\d+)?$/, "Must be a number")
+    .optional()
+    .describe(description);
+
+const promptZipCode = z
+  .string()
+  .regex(/^\d{5}$/, "Must be a 5-digit ZIP code")
+  .describe("5-digit ZIP code (e.g., '78705')");
+
+export const UnderwriteRentalPromptArgs = {
+  address: z.string().min(1).describe("Full property address (e.g., '1011 W 23rd St, Austin, TX 78705')"),
+  purchasePrice: promptNumber("Offer or purchase price in dollars (default: AVM value)"),
+  downPaymentPercent: promptNumber("Down payment as percent of price (default: 25)"),
+  interestRate: promptNumber("Annual mortgage interest rate in percent (default: 7)"),
+};
+
+export const NeighborhoodBriefPromptArgs = {
+  zipCode: promptZipCode,
+  audience: z
+    .enum(["buyer", "renter", "investor"])
+    .optional()
+    .describe("Who the brief is for (default: investor)"),
+};
+
+export const ListingDueDiligencePromptArgs = {
+  listingId: z.string().min(1).describe("Listing ID from get_sale_listings / get_rental_listings"),
+  listingType: z
+    .enum(["sale", "rental"])
+    .optional()
+    .describe("Type of listing (default: sale)"),
+};
+
+export const RentPricingAdvicePromptArgs = {
+  address: z.string().min(1).describe("Full address of the unit to price"),
+  propertyType: z.string().optional().describe("Property type (e.g., 'Single Family', 'Condo', 'Apartment')"),
+  bedrooms: promptNumber("Number of bedrooms"),
+  bathrooms: promptNumber("Number of bathrooms"),
+  squareFootage: promptNumber("Living area in square feet"),
+};
+
+// ========================================
+// 📤 MCP TOOL OUTPUT SCHEMAS (structuredContent)
+// ========================================
+// Fields are nullish because Rentcast omits or nulls data it doesn't have
+
+export const PropertyOutputSchema = z.object({
+  id: z.string().nullish(),
+  formattedAddress: z.string().nullish(),
+  addressLine1: z.string().nullish(),
+  addressLine2: z.string().nullish(),
+  city: z.string().nullish(),
+  state: z.string().nullish(),
+  zipCode: z.string().nullish(),
+  county: z.string().nullish(),
+  latitude: z.number().nullish(),
+  longitude: z.number().nullish(),
+  propertyType: z.string().nullish(),
+  bedrooms: z.number().nullish(),
+  bathrooms: z.number().nullish(),
+  squareFootage: z.number().nullish(),
+  lotSize: z.number().nullish(),
+  yearBuilt: z.number().nullish(),
+  lastSaleDate: z.string().nullish(),
+  lastSalePrice: z.number().nullish(),
+  hoaFee: z.number().nullish(),
+  ownerOccupied: z.boolean().nullish(),
+});
+
+export const ListingOutputSchema = PropertyOutputSchema.omit({
+  lastSaleDate: true,
+  lastSalePrice: true,
+  hoaFee: true,
+  ownerOccupied: true,
+}).extend({
+  status: z.string().nullish(),
+  price: z.number().nullish().describe("Sale price, or monthly rent for rental listings"),
+  listingType: z.string().nullish(),
+  listedDate: z.string().nullish(),
+  removedDate: z.string().nullish(),
+  daysOnMarket: z.number().nullish(),
+  mlsName: z.string().nullish(),
+  mlsNumber: z.string().nullish(),
+});
+
+export const ListingContactOutputSchema = z.object({
+  name: z.string().nullish(),
+  phone: z.string().nullish(),
+  email: z.string().nullish(),
+  website: z.string().nullish(),
+});
+
+export const ListingHistoryEventOutputSchema = z.object({
+  date: z.string(),
+  event: z.string().nullish(),
+  price: z.number().nullish().describe("List price, or monthly rent for rental listings"),
+  listingType: z.string().nullish(),
+  listedDate: z.string().nullish(),
+  removedDate: z.string().nullish(),
+  daysOnMarket: z.number().nullish(),
+});
+
+export const TimelineEventOutputSchema = z.object({
+  date: z.string().describe("YYYY-MM-DD"),
+  category: z
+    .enum(["sale", "listing", "rental"])
+    .describe("sale = recorded sale, listing = for-sale listing, rental = rental listing"),
+  kind: z.enum(["sold", "listed", "price_change", "removed"]),
+  event: z.string().nullish().describe("Raw Rentcast event name"),
+  price: z.number().nullish().describe("Sale/list price, or monthly rent for rental events"),
+  previousPrice: z.number().nullish().describe("Previous price in the same category"),
+  priceChange: z.number().nullish(),
+  percentChange: z.number().nullish(),
+  daysOnMarket: z.number().nullish(),
+});
+
+export const ListingDetailOutputSchema = z.object({
+  listingType: z.enum(["sale", "rental"]),
+  listing: ListingOutputSchema.extend({
+    listingAgent: ListingContactOutputSchema.nullish(),
+    listingOffice: ListingContactOutputSchema.nullish(),
+    history: z.array(ListingHistoryEventOutputSchema),
+  }),
+  timeline: z.array(TimelineEventOutputSchema).describe("Chronological, oldest first"),
+});
+
+export const MarketStatsOutputSchema = z.object({
+  averagePrice: z.number().nullish(),
+  medianPrice: z.number().nullish(),
+  averagePricePerSquareFoot: z.number().nullish(),
+  averageRent: z.number().nullish(),
+  medianRent: z.number().nullish(),
+  averageRentPerSquareFoot: z.number().nullish(),
+  averageDaysOnMarket: z.number().nullish(),
+  newListings: z.number().nullish(),
+  totalListings: z.number().nullish(),
+  lastUpdatedDate: z.string().nullish(),
+});
+
+export const MarketOutputSchema = z.object({
+  zipCode: z.string().nullish(),
+  city: z.string().nullish(),
+  state: z.string().nullish(),
+  saleData: MarketStatsOutputSchema.nullish(),
+  rentalData: MarketStatsOutputSchema.nullish(),
+});
+
+export const ComparableOutputSchema = z.object({
+  id: z.string().nullish(),
+  formattedAddress: z.string().nullish(),
+  price: z.number().nullish().describe("Sale price, or monthly rent for rent comparables"),
+  propertyType: z.string().nullish(),
+  bedrooms: z.number().nullish(),
+  bathrooms: z.number().nullish(),
+  squareFootage: z.number().nullish(),
+  pricePerSquareFoot: z.number().nullish().describe("price / squareFootage (rent per sqft for rent comparables)"),
+  distance: z.number().nullish().describe("Distance from the subject property in miles"),
+  correlation: z.number().nullish().describe("Similarity to the subject property, 0-1"),
+  daysOnMarket: z.number().nullish(),
+  daysOld: z.number().nullish().describe("Days since the comparable listing was last seen"),
+  status: z.string().nullish(),
+  listingType: z.string().nullish(),
+});
+
+export const ComparableSummaryOutputSchema = z.object({
+  count: z.number(),
+  medianPrice: z.number().nullish(),
+  averagePrice: z.number().nullish(),
+  medianPricePerSquareFoot: z.number().nullish(),
+  averagePricePerSquareFoot: z.number().nullish(),
+  correlationWeightedPrice: z.number().nullish(),
+  subjectSquareFootage: z.number().nullish(),
+  sizeAdjustedValue: z
+    .number()
+    .nullish()
+    .describe("Median comparable price/sqft x subject square footage"),
+});
+
+const PaginationOutputFields = {
+  pagesFetched: z.number().optional().describe("Upstream pages fetched for this response"),
+  nextCursor: z.string().nullish().describe("Pass as `cursor` (with the same filters) to fetch the next page; null when there are no more results"),
+};
+
+export const PropertyListOutputSchema = z.object({
+  count: z.number(),
+  properties: z.array(PropertyOutputSchema),
+  ...PaginationOutputFields,
+});
+
+export const ListingListOutputSchema = z.object({
+  count: z.number(),
+  listings: z.array(ListingOutputSchema),
+  ...PaginationOutputFields,
+});
+
+export const MarketTrendMetricOutputSchema = z.object({
+  metric: z.string(),
+  current: z.number().nullish(),
+  previousMonth: z.number().nullish(),
+  monthOverMonthChange: z.number().nullish(),
+  monthOverMonthPercent: z.number().nullish(),
+  yearAgo: z.number().nullish(),
+  yearOverYearChange: z.number().nullish(),
+  yearOverYearPercent: z.number().nullish(),
+  windowChangePercent: z
+    .number()
+    .nullish()
+    .describe("Change from the first to the last month in the window"),
+  direction: z.enum(["up", "down", "flat"]).nullish(),
+});
+
+export const MarketTrendOutputSchema = z.object({
+  months: z.number().describe("Months of history in the window"),
+  from: z.string().nullish().describe("First month (YYYY-MM)"),
+  to: z.string().nullish().describe("Latest month (YYYY-MM)"),
+  metrics: z.array(MarketTrendMetricOutputSchema),
+  direction: z.enum(["heating", "cooling", "stable", "mixed"]),
+  summary: z.string(),
+});
+
+export const MarketAnalysisOutputSchema = z.object({
+  market: MarketOutputSchema,
+  trends: z
+    .object({
+      sale: MarketTrendOutputSchema.nullish(),
+      rental: MarketTrendOutputSchema.nullish(),
+    })
+    .nullish(),
+});
+
+export const MarketComparisonRowOutputSchema = z.object({
+  rank: z.number().nullish().describe("Null when the ranking metric is unavailable"),
+  zipCode: z.string(),
+  city: z.string().nullish(),
+  state: z.string().nullish(),
+  medianPrice: z.number().nullish(),
+  medianRent: z.number().nullish(),
+  grossRentYield: z.number().nullish().describe("Annual median rent / median price, in percent"),
+  pricePerSquareFoot: z.number().nullish(),
+  daysOnMarket: z.number().nullish().describe("Average days on market for sale listings"),
+  inventory: z.number().nullish().describe("Total sale listings"),
+  rentalInventory: z.number().nullish().describe("Total rental listings"),
+});
+
+export const MarketComparisonOutputSchema = z.object({
+  count: z.number(),
+  sortBy: z.enum(MARKET_COMPARISON_METRICS),
+  order: z.enum(["asc", "desc"]),
+  markets: z.array(MarketComparisonRowOutputSchema),
+  failures: z.array(z.object({ zipCode: z.string(), error: z.string() })),
+});
+
+export const InvestmentAnalysisOutputSchema = z.object({
+  estimates: z.object({
+    value: z.number().nullish(),
+    valueRangeLow: z.number().nullish(),
+    valueRangeHigh: z.number().nullish(),
+    rent: z.number().nullish(),
+    rentRangeLow: z.number().nullish(),
+    rentRangeHigh: z.number().nullish(),
+  }),
+  assumptions: z.object({
+    purchasePrice: z.number(),
+    monthlyRent: z.number(),
+    downPaymentPercent: z.number(),
+    interestRate: z.number(),
+    loanTermYears: z.number(),
+    closingCostPercent: z.number(),
+    annualPropertyTax: z.number(),
+    annualInsurance: z.number(),
+    monthlyHoa: z.number(),
+    vacancyRate: z.number(),
+    managementRate: z.number(),
+    maintenanceRate: z.number(),
+  }),
+  sources: z
+    .record(z.string())
+    .describe("Where each derived assumption came from (input, avm, property record, default)"),
+  annual: z.object({
+    grossRent: z.number(),
+    vacancyLoss: z.number(),
+    effectiveGrossIncome: z.number(),
+    operatingExpenses: z.number(),
+    netOperatingIncome: z.number(),
+    debtService: z.number(),
+    cashFlow: z.number(),
+  }),
+  financing: z.object({
+    downPayment: z.number(),
+    closingCosts: z.number(),
+    totalCashInvested: z.number(),
+    loanAmount: z.number(),
+    monthlyMortgagePayment: z.number(),
+  }),
+  metrics: z.object({
+    capRate: z.number().nullish().describe("NOI / purchase price, percent"),
+    cashOnCashReturn: z.number().nullish().describe("Annual cash flow / cash invested, percent"),
+    monthlyCashFlow: z.number(),
+    grossRentMultiplier: z.number().nullish().describe("Purchase price / gross annual rent"),
+    dscr: z.number().nullish().describe("NOI / annual debt service; null without a loan"),
+  }),
+  warnings: z.array(z.string()),
+});
+
+/**
+ * Subject property attributes sent to the AVM, and which of them were
+ * looked up server-side from a property record or listing
+ */
+export const SubjectPropertyOutputSchema = z.object({
+  address: z.string().nullish(),
+  latitude: z.number().nullish(),
+  longitude: z.number().nullish(),
+  propertyType: z.string().nullish(),
+  bedrooms: z.number().nullish(),
+  bathrooms: z.number().nullish(),
+  squareFootage: z.number().nullish(),
+  hydratedFrom: z
+    .string()
+    .nullish()
+    .describe("e.g. 'property <id>' or 'sale listing <id>'"),
+  hydratedFields: z.array(z.string()),
+});
+
+export const AVMSettingsOutputSchema = z.object({
+  maxRadius: z.number().nullish(),
+  daysOld: z.number().nullish(),
+  compCount: z.number().nullish(),
+  lookupSubjectAttributes: z.boolean().nullish(),
+  request: z
+    .record(z.union([z.string(), z.number(), z.boolean()]))
+    .describe("Exact query parameters sent to the Rentcast AVM endpoint"),
+});
+
+export const PortfolioPropertyResultOutputSchema = z.object({
+  index: z.number().describe("Position in the input list (0-based)"),
+  label: z.string().nullish(),
+  address: z.string().nullish(),
+  status: z.enum(["ok", "partial", "failed"]),
+  value: z.number().nullish(),
+  valueRangeLow: z.number().nullish(),
+  valueRangeHigh: z.number().nullish(),
+  rent: z.number().nullish(),
+  rentRangeLow: z.number().nullish(),
+  rentRangeHigh: z.number().nullish(),
+  grossYield: z.number().nullish().describe("Annual rent / value, percent"),
+  errors: z.array(z.string()),
+});
+
+export const BatchValuationOutputSchema = z.object({
+  count: z.number(),
+  succeeded: z.number(),
+  partial: z.number(),
+  failed: z.number(),
+  apiCallsUsed: z.number().describe("Upstream attempts made, retries included (cache hits excluded)"),
+  apiCallCeiling: z.number().describe("Effective ceiling: maxApiCalls capped at the remaining session budget"),
+  requestedApiCallCeiling: z.number(),
+  totals: z.object({
+    estimatedValue: z.number(),
+    valuedProperties: z.number(),
+    monthlyRent: z.number(),
+    rentedProperties: z.number(),
+    annualRent: z.number(),
+    grossYield: z
+      .number()
+      .nullish()
+      .describe("Annual rent / value across properties that have both, percent"),
+  }),
+  properties: z.array(PortfolioPropertyResultOutputSchema),
+  failures: z.array(
+    z.object({
+      index: z.number(),
+      label: z.string().nullish(),
+      address: z.string().nullish(),
+      reason: z.string(),
+    }),
+  ),
+});
+
+export const ValueEstimateOutputSchema = z.object({
+  price: z.number().nullish(),
+  priceRangeLow: z.number().nullish(),
+  priceRangeHigh: z.number().nullish(),
+  comparables: z.array(ComparableOutputSchema).describe("All comparables, in the requested sort order"),
+  comparableSummary: ComparableSummaryOutputSchema,
+  subject: SubjectPropertyOutputSchema,
+  settings: AVMSettingsOutputSchema.describe("Comparable-selection settings used; Rentcast defaults apply to omitted ones"),
+});
+
+export const RentEstimateOutputSchema = z.object({
+  rent: z.number().nullish(),
+  rentRangeLow: z.number().nullish(),
+  rentRangeHigh: z.number().nullish(),
+  comparables: z.array(ComparableOutputSchema).describe("All comparables, in the requested sort order"),
+  comparableSummary: ComparableSummaryOutputSchema,
+  subject: SubjectPropertyOutputSchema,
+  settings: AVMSettingsOutputSchema.describe("Comparable-selection settings used; Rentcast defaults apply to omitted ones"),
+});
+
+export const PropertyDetailOutputSchema = z.object({
+  property: PropertyOutputSchema,
+  timeline: z.array(TimelineEventOutputSchema).describe("Chronological, oldest first"),
+});
+
+export const ServerStatusOutputSchema = z.object({
+  uptimeMs: z.number(),
+  budget: z.object({
+    callsMade: z.number(),
+    maxCalls: z.number(),
+    remainingCalls: z.number(),
+    rateLimitingEnabled: z.boolean(),
+    ratePerMinute: z.number(),
+    availableTokens: z.number(),
+  }),
+  endpoints: z.record(
+    z.object({
+      calls: z.number(),
+      errors: z.number(),
+      blocked: z.number(),
+      cacheHits: z.number(),
+      averageLatencyMs: z.number(),
+      lastError: z
+        .object({ message: z.string(), timestamp: z.number() })
+        .optional(),
+    }),
+  ),
+  config: z.record(z.union([z.string(), z.number(), z.boolean()])),
+});
+
+export type PropertyOutput = z.infer<typeof PropertyOutputSchema>;
+export type ListingOutput = z.infer<typeof ListingOutputSchema>;
+export type MarketOutput = z.infer<typeof MarketOutputSchema>;
+export type MarketStatsOutput = z.infer<typeof MarketStatsOutputSchema>;
+export type ComparableOutput = z.infer<typeof ComparableOutputSchema>;
+export type ListingContactOutput = z.infer<typeof ListingContactOutputSchema>;
+export type ListingHistoryEventOutput = z.infer<typeof ListingHistoryEventOutputSchema>;
+export type TimelineEventOutput = z.infer<typeof TimelineEventOutputSchema>;
+export type MarketTrendMetricOutput = z.infer<typeof MarketTrendMetricOutputSchema>;
+export type MarketTrendOutput = z.infer<typeof MarketTrendOutputSchema>;
+export type MarketComparisonRowOutput = z.infer<typeof MarketComparisonRowOutputSchema>;
+export type InvestmentAnalysisOutput = z.infer<typeof InvestmentAnalysisOutputSchema>;
+export type SubjectPropertyOutput = z.infer<typeof SubjectPropertyOutputSchema>;
+export type ComparableSummaryOutput = z.infer<typeof ComparableSummaryOutputSchema>;
+export type PortfolioProperty = z.infer<typeof PortfolioPropertySchema>;
+export type PortfolioPropertyResultOutput = z.infer<typeof PortfolioPropertyResultOutputSchema>;
+
 // ========================================
 // 📝 ENDPOINT CONFIGURATION
 // ========================================
@@ -317,7 +1050,7 @@ export const RENTCAST_ENDPOINTS: Record<string, EndpointConfig> = {
     method: "GET",
     description: "Get market statistics and trends",
     requiredParams: [],
-    optionalParams: ["zipCode", "city", "state", "dataType"],
+    optionalParams: ["zipCode", "city", "state", "dataType", "historyRange"],
     maxDataParams: { dataType: "All" },
     responseType: "Market[]",
     dataVolume: "medium",
@@ -327,7 +1060,20 @@ export const RENTCAST_ENDPOINTS: Record<string, EndpointConfig> = {
     method: "GET",
     description: "Get property value estimates with comparables",
     requiredParams: [],
-    optionalParams: ["propertyId", "address", "propertyType"],
+    optionalParams: [
+      "propertyId",
+      "address",
+      "latitude",
+      "longitude",
+      "propertyType",
+      "bedrooms",
+      "bathrooms",
+      "squareFootage",
+      "maxRadius",
+      "daysOld",
+      "compCount",
+      "lookupSubjectAttributes",
+    ],
     maxDataParams: {},
     responseType: "AVM",
     dataVolume: "medium",
@@ -337,7 +1083,20 @@ export const RENTCAST_ENDPOINTS: Record<string, EndpointConfig> = {
     method: "GET",
     description: "Get long-term rent estimates with comparables",
     requiredParams: [],
-    optionalParams: ["propertyId", "address", "propertyType"],
+    optionalParams: [
+      "propertyId",
+      "address",
+      "latitude",
+      "longitude",
+      "propertyType",
+      "bedrooms",
+      "bathrooms",
+      "squareFootage",
+      "maxRadius",
+      "daysOld",
+      "compCount",
+      "lookupSubjectAttributes",
+    ],
     maxDataParams: {},
     responseType: "AVM",
     dataVolume: "medium",
@@ -348,7 +1107,23 @@ export const RENTCAST_ENDPOINTS: Record<string, EndpointConfig> = {
     description:
       "Get sale listings with optimized data (15 per call for free tier)",
     requiredParams: [],
-    optionalParams: ["city", "state", "zipCode", "limit"],
+    optionalParams: [
+      "city",
+      "state",
+      "zipCode",
+      "address",
+      "latitude",
+      "longitude",
+      "radius",
+      "propertyType",
+      "bedrooms",
+      "bathrooms",
+      "price",
+      "status",
+      "daysOld",
+      "limit",
+      "offset",
+    ],
     maxDataParams: { limit: 50 },
     responseType: "Listing[]",
     dataVolume: "medium",
@@ -359,7 +1134,23 @@ export const RENTCAST_ENDPOINTS: Record<string, EndpointConfig> = {
     description:
       "Get long-term rental listings with optimized data (15 per call for free tier)",
     requiredParams: [],
-    optionalParams: ["city", "state", "zipCode", "limit"],
+    optionalParams: [
+      "city",
+      "state",
+      "zipCode",
+      "address",
+      "latitude",
+      "longitude",
+      "radius",
+      "propertyType",
+      "bedrooms",
+      "bathrooms",
+      "price",
+      "status",
+      "daysOld",
+      "limit",
+      "offset",
+    ],
     maxDataParams: { limit: 50 },
     responseType: "Listing[]",
     dataVolume: "medium",
@@ -370,14 +1161,23 @@ export const RENTCAST_ENDPOINTS: Record<string, EndpointConfig> = {
     description: "Search properties with filters (15 per call for free tier)",
     requiredParams: [],
     optionalParams: [
+      "address",
       "city",
       "state",
       "zipCode",
+      "latitude",
+      "longitude",
+      "radius",
       "bedrooms",
       "bathrooms",
       "propertyType",
+      "squareFootage",
+      "lotSize",
+      "yearBuilt",
+      "saleDateRange",
       "priceRange",
       "limit",
+      "offset",
     ],
     maxDataParams: { limit: 50 },
     responseType: "Property[]",
@@ -419,18 +1219,142 @@ export const RENTCAST_ENDPOINTS: Record<string, EndpointConfig> = {
 // ⚙️ CONFIGURATION TYPES
 // ========================================
 
+/**
+ * How MCP clients connect to this server
+ */
+export type TransportMode = "stdio" | "http" | "sse";
+
+/**
+ * HTTP record/replay: off (live), record (live + save), replay (saved only)
+ */
+export type CassetteMode = "off" | "record" | "replay";
+
+/**
+ * Minimum severity written to the stderr log ("silent" disables logging)
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error" | "silent";
+
 export interface ServerConfig {
   rentcastApiKey: string;
   rentcastBaseUrl: string;
   timeoutSeconds: number;
+  maxApiCallsPerSession: number;
+  enableRateLimiting: boolean;
+  rateLimitPerMinute: number;
+  enableCache: boolean;
+  cacheDir: string;
+  cacheMaxEntries: number;
+  maxRetryAttempts: number;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+  maxPagesPerCall: number;
+  maxConcurrentRequests: number;
+  maxBatchApiCalls: number;
+  batchInputDir: string;
+  cassetteMode: CassetteMode;
+  cassetteDir: string;
+  transport: TransportMode;
+  host: string;
+  port: number;
+  sessionIdleTimeoutMs: number;
+  maxRequestBodyBytes: number;
+  authConfigFile: string;
+  logLevel: LogLevel;
+}
+
+/**
+ * Why an API call was refused before reaching Rentcast
+ */
+export interface BudgetExhaustion {
+  reason: "session_limit" | "rate_limit";
+  callsMade: number;
+  maxCalls: number;
+  retryAfterMs?: number;
+}
+
+/**
+ * Snapshot of the session call budget and rate limiter
+ */
+export interface BudgetStatus {
+  callsMade: number;
+  maxCalls: number;
+  remainingCalls: number;
+  rateLimitingEnabled: boolean;
+  ratePerMinute: number;
+  availableTokens: number;
 }
 
+/**
+ * Per-endpoint usage statistics (keyed by RENTCAST_ENDPOINTS)
+ */
+export interface EndpointStats {
+  calls: number;
+  errors: number;
+  blocked: number;
+  cacheHits: number;
+  totalLatencyMs: number;
+  averageLatencyMs: number;
+  lastError?: {
+    message: string;
+    timestamp: number;
+  };
+}
 
+/**
+ * Kinds of entity exposed as MCP resources
+ */
+export type RecentEntityKind = "property" | "sale-listing" | "rental-listing" | "market";
+
+/**
+ * A property, listing or market fetched during this session
+ */
+export interface RecentEntity {
+  kind: RecentEntityKind;
+  id: string;
+  title: string;
+  fetchedAt: number;
+}
+
+/**
+ * Error categories produced by RentcastAPIService
+ */
+export type ApiErrorType =
+  | "auth"
+  | "not_found"
+  | "validation"
+  | "rate_limited"
+  | "upstream"
+  | "timeout"
+  | "network"
+  | "replay_miss";
+
+/**
+ * Discriminated error returned in ApiCallResult.error
+ */
+export type ApiError =
+  | { type: "auth"; status: number; message: string }
+  | { type: "not_found"; status: number; message: string }
+  | { type: "validation"; status: number; message: string }
+  | {
+      type: "rate_limited";
+      source: "upstream" | "session_limit" | "rate_limit";
+      status?: number;
+      retryAfterMs?: number;
+      message: string;
+    }
+  | { type: "upstream"; status?: number; message: string }
+  | { type: "timeout"; message: string }
+  | { type: "network"; message: string }
+  | { type: "replay_miss"; message: string };
 
 export interface ApiCallResult {
   success: boolean;
   data?: any;
-  error?: string;
+  error?: ApiError;
+  budgetExhausted?: BudgetExhaustion;
+  cached?: boolean;
+  cachedAt?: number;
+  attempts?: number;
   endpoint: string;
   timestamp: number;
 }
@@ -449,7 +1373,9 @@ export interface ApiCallResult {
  */
 export const RentEstimateSchema = z.object({
   // Required parameters (at least one)
-  propertyId: z.string().optional().describe("Unique property identifier from Rentcast database (e.g., '12345')"),
+  propertyId: z.string().optional().describe("Unique property identifier from Rentcast database (e.g., '12345'); missing attributes are filled in from the property record"),
+  listingId: z.string().optional().describe("Sale or rental listing ID; missing attributes are filled in from the listing"),
+  listingType: z.enum(["sale", "rental"]).optional().describe("Which kind of listing listingId refers to (default: rental)"),
   address: z.string().optional().describe("Full property address (e.g., '1011 W 23rd St, Apt 101, Austin, TX 78705')"),
   latitude: z.number().optional().describe("Property latitude coordinate (e.g., 30.287007)"),
   longitude: z.number().optional().describe("Property longitude coordinate (e.g., -97.748941)"),
@@ -459,6 +1385,8 @@ export const RentEstimateSchema = z.object({
   bedrooms: z.number().optional().describe("Number of bedrooms (e.g., 1, 2, 3)"),
   bathrooms: z.number().optional().describe("Number of bathrooms (e.g., 1, 1.5, 2)"),
   squareFootage: z.number().optional().describe("Property size in square feet (e.g., 450, 1200, 2000)"),
+  ...AVMControlFields,
+  ...ComparableDisplayFields,
 });
 
 /**
@@ -469,8 +1397,12 @@ export interface RentEstimateResponse {
   rentRangeLow?: number;
   rentRangeHigh?: number;
   comparables?: Array<{
-    address: string;
-    rent: number;
+    id?: string;
+    formattedAddress?: string;
+    address?: string;
+    price?: number;
+    rent?: number;
+    correlation?: number;
     bedrooms?: number;
     bathrooms?: number;
     squareFootage?: number;
@@ -486,3 +1418,32 @@ export interface RentEstimateResponse {
   bathrooms?: number;
   squareFootage?: number;
 }
+
+// ========================================
+// 📈 INVESTMENT ANALYSIS SCHEMA
+// ========================================
+
+/**
+ * Schema for rental investment analysis: the property (as for rent
+ * estimates) plus purchase and operating assumptions. Percentages are
+ * given as percent values (e.g. 25 for 25%).
+ */
+export const InvestmentAnalysisSchema = RentEstimateSchema.omit({
+  comparablesLimit: true,
+  sortComparablesBy: true,
+}).extend({
+  listingType: z.enum(["sale", "rental"]).optional().describe("Which kind of listing listingId refers to (default: sale)"),
+  purchasePrice: z.number().positive().optional().describe("Purchase price (default: AVM value estimate)"),
+  monthlyRent: z.number().positive().optional().describe("Expected monthly rent (default: AVM rent estimate)"),
+  downPaymentPercent: z.number().min(0).max(100).default(25).describe("Down payment, percent of purchase price (default: 25)"),
+  interestRate: z.number().min(0).max(30).default(7).describe("Annual mortgage interest rate, percent (default: 7)"),
+  loanTermYears: z.number().int().min(1).max(40).default(30).describe("Mortgage term in years (default: 30)"),
+  closingCostPercent: z.number().min(0).max(20).default(3).describe("Closing costs, percent of purchase price (default: 3)"),
+  annualPropertyTax: z.number().min(0).optional().describe("Annual property tax (default: latest tax bill on the property record, else propertyTaxRate)"),
+  propertyTaxRate: z.number().min(0).max(10).default(1.2).describe("Property tax rate, percent of purchase price, used when no tax amount is known (default: 1.2)"),
+  annualInsurance: z.number().min(0).optional().describe("Annual insurance premium (default: 0.5% of purchase price)"),
+  monthlyHoa: z.number().min(0).optional().describe("Monthly HOA fee (default: HOA fee on the property record, else 0)"),
+  vacancyRate: z.number().min(0).max(100).default(5).describe("Vacancy allowance, percent of gross rent (default: 5)"),
+  managementRate: z.number().min(0).max(100).default(8).describe("Property management fee, percent of collected rent (default: 8)"),
+  maintenanceRate: z.number().min(0).max(100).default(5).describe("Maintenance reserve, percent of gross rent (default: 5)"),
+});
@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { AuthConfigSchema, StaticTokenAuthProvider } from "../src/services/auth.js";
+
+const client = (overrides: Record<string, unknown>) => ({
+  clients: [{ clientId: "acquisitions", token: "a-long-random-token-for-tests", ...overrides }],
+});
+
+describe("AuthConfigSchema", () => {
+  it("accepts zero limits", async () => {
+    const parsed = AuthConfigSchema.parse(client({ maxApiCallsPerSession: 0, rateLimitPerMinute: 0 }));
+    const identity = await new StaticTokenAuthProvider(parsed).authenticate("a-long-random-token-for-tests");
+    expect(identity).toMatchObject({ clientId: "acquisitions", maxApiCallsPerSession: 0, rateLimitPerMinute: 0 });
+  });
+
+  it("rejects negative and fractional limits", () => {
+    expect(AuthConfigSchema.safeParse(client({ maxApiCallsPerSession: -1 })).success).toBe(false);
+    expect(AuthConfigSchema.safeParse(client({ rateLimitPerMinute: 1.5 })).success).toBe(false);
+  });
+});
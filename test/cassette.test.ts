@@ -0,0 +1,104 @@
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { CassetteMode } from "../src/types/index.js";
+import { RentcastAPIService } from "../src/services/rentcast-api.js";
+import { FakeRentcastServer } from "./fake-rentcast.js";
+import { callTool, connectClient, structuredOf, textOf } from "./harness.js";
+
+const PROPERTY_ID = "1011-W-23rd-St,-Austin,-TX-78705";
+
+const fake = new FakeRentcastServer();
+let dir: string;
+const client = (cassetteMode: CassetteMode, baseUrl = fake.url) =>
+  new RentcastAPIService({ apiKey: fake.apiKey, baseUrl, cassetteMode, cassetteDir: dir });
+
+beforeAll(async () => {
+  await fake.start();
+});
+afterAll(async () => {
+  await fake.stop();
+});
+beforeEach(() => {
+  fake.reset();
+  dir = mkdtempSync(path.join(tmpdir(), "rentcast-cassettes-"));
+});
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("record", () => {
+  it("writes one scrubbed file per request", async () => {
+    const api = client("record");
+    await api.getMarketData({ zipCode: "78705" });
+    await api.getProperty(PROPERTY_ID);
+    await api.getProperty("missing");
+
+    const files = readdirSync(dir).sort();
+    expect(files).toHaveLength(3);
+    expect(files[0]).toMatch(/^markets-[0-9a-f]{16}\.json$/);
+
+    for (const file of files) {
+      const text = readFileSync(path.join(dir, file), "utf8");
+      expect(text).not.toContain(fake.apiKey);
+      expect(JSON.parse(text).request.headers["X-Api-Key"]).toBe("[REDACTED]");
+    }
+  });
+
+  it("hits the network on every call", async () => {
+    const api = client("record");
+    await api.getMarketData({ zipCode: "78705" });
+    await api.getMarketData({ zipCode: "78705" });
+    expect(fake.requestsFor("markets")).toHaveLength(2);
+    expect(readdirSync(dir)).toHaveLength(1);
+  });
+});
+
+describe("replay", () => {
+  it("serves recorded responses without the network", async () => {
+    const recorded = await client("record").getProperty(PROPERTY_ID);
+    const missing = await client("record").getProperty("missing");
+    fake.reset();
+
+    const api = client("replay", "http://127.0.0.1:9/v1");
+    const replayed = await api.getProperty(PROPERTY_ID);
+    expect(replayed.data).toEqual(recorded.data);
+    expect((await api.getProperty("missing")).error).toEqual(missing.error);
+    expect(fake.requests).toHaveLength(0);
+  });
+
+  it("matches requests on normalized params", async () => {
+    await client("record").getPropertyValue({ address: "1011 W 23rd St, Austin, TX 78705" });
+    const replayed = await client("replay").getPropertyValue({
+      address: "  1011 w 23rd st,   Austin, TX 78705 ",
+    });
+    expect(replayed.success).toBe(true);
+  });
+
+  it("fails loudly on unmatched requests", async () => {
+    const result = await client("replay").getMarketData({ zipCode: "78705" });
+    expect(result.success).toBe(false);
+    expect(result.error?.type).toBe("replay_miss");
+    expect(result.error?.message).toContain("/markets");
+    expect(result.attempts).toBe(1);
+    expect(fake.requests).toHaveLength(0);
+  });
+
+  it("replays end to end through the MCP tools", async () => {
+    const recording = await connectClient(fake, { cassetteMode: "record", cassetteDir: dir });
+    await callTool(recording.client, "analyze_market", { zipCode: "78702" });
+    await recording.close();
+    fake.reset();
+
+    const replay = await connectClient(fake, { cassetteMode: "replay", cassetteDir: dir });
+    const result = await callTool(replay.client, "analyze_market", { zipCode: "78702" });
+    expect(structuredOf(result).trends.sale.direction).toBe("heating");
+
+    const miss = await callTool(replay.client, "analyze_market", { zipCode: "78704" });
+    expect(miss.isError).toBe(true);
+    expect(textOf(miss)).toContain("Error Type: replay_miss");
+    expect(fake.requests).toHaveLength(0);
+    await replay.close();
+  });
+});
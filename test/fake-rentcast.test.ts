@@ -0,0 +1,77 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { RENTCAST_ENDPOINTS } from "../src/types/index.js";
+import { FakeRentcastServer, loadFixtures } from "./fake-rentcast.js";
+
+describe("fixtures", () => {
+  const fixtures = loadFixtures();
+
+  it("cover every RENTCAST_ENDPOINTS entry", () => {
+    expect([...fixtures.keys()].sort()).toEqual(
+      Object.keys(RENTCAST_ENDPOINTS).sort(),
+    );
+  });
+
+  it.each([...fixtures.values()].map((f) => [f.endpoint, f] as const))(
+    "%s has a success case and an error or edge case",
+    (_endpoint, fixture) => {
+      expect(fixture.cases.some((c) => c.status === 200)).toBe(true);
+      if (fixture.endpoint !== "properties/random") {
+        expect(fixture.cases.length).toBeGreaterThan(1);
+      }
+    },
+  );
+});
+
+describe("FakeRentcastServer", () => {
+  const fake = new FakeRentcastServer();
+  const get = (path: string, apiKey = fake.apiKey) =>
+    fetch(`${fake.url}${path}`, { headers: { "X-Api-Key": apiKey } });
+
+  beforeAll(async () => {
+    await fake.start();
+  });
+  afterAll(async () => {
+    await fake.stop();
+  });
+  beforeEach(() => fake.reset());
+
+  it("rejects a wrong API key with 401", async () => {
+    const response = await get("/markets?zipCode=78705", "wrong");
+    expect(response.status).toBe(401);
+  });
+
+  it("matches cases on path and query parameters", async () => {
+    const found = await get("/properties/1011-W-23rd-St,-Austin,-TX-78705");
+    expect(found.status).toBe(200);
+    expect((await found.json()).zipCode).toBe("78705");
+
+    const missing = await get("/properties/missing");
+    expect(missing.status).toBe(404);
+
+    const cooling = await get("/markets?zipCode=78704");
+    expect((await cooling.json()).zipCode).toBe("78704");
+  });
+
+  it("pages array fixtures by limit and offset", async () => {
+    const first = await (await get("/properties?zipCode=78705&limit=3")).json();
+    const second = await (await get("/properties?zipCode=78705&limit=3&offset=3")).json();
+    expect(first).toHaveLength(3);
+    expect(second).toHaveLength(3);
+    expect(second[0].id).not.toBe(first[0].id);
+  });
+
+  it("serves queued responses before fixtures", async () => {
+    fake.enqueue("markets", { status: 503, body: { message: "busy" } });
+    expect((await get("/markets?zipCode=78705")).status).toBe(503);
+    expect((await get("/markets?zipCode=78705")).status).toBe(200);
+  });
+
+  it("records requests by endpoint", async () => {
+    await get("/listings/sale/abc");
+    await get("/listings/sale?zipCode=78705");
+    expect(fake.requestsFor("listings/sale/{id}")).toEqual([
+      expect.objectContaining({ path: "/listings/sale/abc", params: { id: "abc" } }),
+    ]);
+    expect(fake.requestsFor()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,217 @@
+import http from "node:http";
+import { AddressInfo } from "node:net";
+import { readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { RENTCAST_ENDPOINTS } from "../src/types/index.js";
+import { resolveEndpointKey } from "../src/services/usage-tracker.js";
+
+/**
+ * Fake Rentcast
+ * In-process HTTP server that answers Rentcast API requests from the JSON
+ * fixtures in test/fixtures. Point a RentcastAPIService (or the server via
+ * RENTCAST_BASE_URL) at `url` to run tools without network access or quota.
+ */
+
+export const FIXTURES_DIR = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "fixtures",
+);
+
+export const FAKE_API_KEY = "test-key";
+
+/**
+ * One canned response. Cases are tried in order; the first whose `match`
+ * entries all equal the request's query or path parameters wins, and a case
+ * without `match` is the fallback.
+ */
+export interface FixtureCase {
+  name: string;
+  match?: Record<string, string>;
+  status: number;
+  headers?: Record<string, string>;
+  body: unknown;
+  // Slice array bodies by the request's limit/offset like Rentcast does
+  paginate?: boolean;
+}
+
+export interface Fixture {
+  endpoint: string;
+  cases: FixtureCase[];
+}
+
+/**
+ * Response queued for the next request(s) to an endpoint, ahead of fixtures
+ */
+export interface ScriptedResponse {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+export interface RecordedRequest {
+  endpoint: string;
+  path: string;
+  params: Record<string, string>;
+  apiKey: string | undefined;
+}
+
+/**
+ * Load every fixture file, keyed by RENTCAST_ENDPOINTS key
+ */
+export function loadFixtures(dir: string = FIXTURES_DIR): Map<string, Fixture> {
+  const fixtures = new Map<string, Fixture>();
+  for (const file of readdirSync(dir).filter((name) => name.endsWith(".json"))) {
+    const fixture = JSON.parse(
+      readFileSync(path.join(dir, file), "utf8"),
+    ) as Fixture;
+    if (!RENTCAST_ENDPOINTS[fixture.endpoint]) {
+      throw new Error(`${file}: unknown endpoint ${fixture.endpoint}`);
+    }
+    fixtures.set(fixture.endpoint, fixture);
+  }
+  return fixtures;
+}
+
+/**
+ * Path variables ({id}) of a request to a RENTCAST_ENDPOINTS entry
+ */
+function pathParams(endpoint: string, requestPath: string): Record<string, string> {
+  const template = RENTCAST_ENDPOINTS[endpoint]?.path ?? "";
+  const names = [...template.matchAll(/\{([^}]+)\}/g)].map((m) => m[1]!);
+  const pattern = new RegExp(
+    `^${template.replace(/\{[^}]+\}/g, "([^/]+)")}$`,
+  );
+  const values = requestPath.match(pattern)?.slice(1) ?? [];
+  return Object.fromEntries(
+    names.map((name, i) => [name, decodeURIComponent(values[i] ?? "")]),
+  );
+}
+
+function paginate(body: unknown, params: Record<string, string>): unknown {
+  if (!Array.isArray(body)) return body;
+  const offset = Number(params.offset ?? 0);
+  const limit = Number(params.limit ?? 50);
+  return body.slice(offset, offset + limit);
+}
+
+export class FakeRentcastServer {
+  readonly apiKey: string;
+  readonly requests: RecordedRequest[] = [];
+  private fixtures: Map<string, Fixture>;
+  private scripted = new Map<string, ScriptedResponse[]>();
+  private server: http.Server | null = null;
+  private baseUrl = "";
+
+  constructor(options: { apiKey?: string; fixtures?: Map<string, Fixture> } = {}) {
+    this.apiKey = options.apiKey ?? FAKE_API_KEY;
+    this.fixtures = options.fixtures ?? loadFixtures();
+  }
+
+  /**
+   * Start listening (port 0 picks a free port); resolves to the base URL
+   */
+  async start(port = 0, host = "127.0.0.1"): Promise<string> {
+    this.server = http.createServer((req, res) => this.handle(req, res));
+    await new Promise<void>((resolve) => this.server!.listen(port, host, resolve));
+    const address = this.server.address() as AddressInfo;
+    this.baseUrl = `http://${host}:${address.port}/v1`;
+    return this.baseUrl;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (!server) return;
+    await new Promise<void>((resolve, reject) =>
+      server.close((error) => (error ? reject(error) : resolve())),
+    );
+  }
+
+  /**
+   * Base URL to use as RENTCAST_BASE_URL / RentcastAPIService baseUrl
+   */
+  get url(): string {
+    return this.baseUrl;
+  }
+
+  /**
+   * Serve these responses, in order, to the next requests for an endpoint
+   */
+  enqueue(endpoint: string, ...responses: ScriptedResponse[]): void {
+    this.scripted.set(endpoint, [
+      ...(this.scripted.get(endpoint) ?? []),
+      ...responses,
+    ]);
+  }
+
+  /**
+   * Requests received for one endpoint (or all)
+   */
+  requestsFor(endpoint?: string): RecordedRequest[] {
+    return this.requests.filter(
+      (request) => endpoint === undefined || request.endpoint === endpoint,
+    );
+  }
+
+  /**
+   * Forget recorded requests and queued responses
+   */
+  reset(): void {
+    this.requests.length = 0;
+    this.scripted.clear();
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const url = new URL(req.url ?? "/", "http://fake.rentcast");
+    const requestPath = url.pathname.replace(/^\/v1/, "");
+    const endpoint = resolveEndpointKey(requestPath);
+    const apiKey = req.headers["x-api-key"];
+    const params = {
+      ...Object.fromEntries(url.searchParams),
+      ...pathParams(endpoint, requestPath),
+    };
+    this.requests.push({
+      endpoint,
+      path: requestPath,
+      params,
+      apiKey: Array.isArray(apiKey) ? apiKey[0] : apiKey,
+    });
+
+    const send = (status: number, body: unknown, headers: Record<string, string> = {}) => {
+      res.writeHead(status, { "Content-Type": "application/json", ...headers });
+      res.end(body === undefined ? "" : JSON.stringify(body));
+    };
+
+    if (apiKey !== this.apiKey) {
+      return send(401, {
+        status: 401,
+        error: "auth/api-key-invalid",
+        message: "Invalid or missing API key",
+      });
+    }
+
+    const queued = this.scripted.get(endpoint)?.shift();
+    if (queued) {
+      return send(queued.status, queued.body, queued.headers);
+    }
+
+    const fixtureCase = this.fixtures
+      .get(endpoint)
+      ?.cases.find(
+        (candidate) =>
+          !candidate.match ||
+          Object.entries(candidate.match).every(([key, value]) => params[key] === value),
+      );
+    if (!fixtureCase) {
+      return send(404, {
+        status: 404,
+        error: "resource/not-found",
+        message: `No fixture for ${requestPath}`,
+      });
+    }
+
+    const body = fixtureCase.paginate ? paginate(fixtureCase.body, params) : fixtureCase.body;
+    send(fixtureCase.status, body, fixtureCase.headers);
+  }
+}
@@ -0,0 +1,74 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import {
+  RentcastAPIService,
+  RentcastAPIServiceOptions,
+} from "../src/services/rentcast-api.js";
+import { createServer } from "../src/server.js";
+import { FakeRentcastServer } from "./fake-rentcast.js";
+
+/**
+ * Test harness
+ * An MCP client connected over an in-memory transport to a fresh server,
+ * whose Rentcast client talks to the fake backend
+ */
+
+export interface Harness {
+  client: Client;
+  api: RentcastAPIService;
+  close: () => Promise<void>;
+}
+
+export async function connectClient(
+  fake: FakeRentcastServer,
+  options: RentcastAPIServiceOptions = {},
+): Promise<Harness> {
+  const api = new RentcastAPIService({
+    apiKey: fake.apiKey,
+    baseUrl: fake.url,
+    ...options,
+  });
+  const server = createServer(api);
+  const client = new Client({ name: "rentcast-tests", version: "1.0.0" });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([
+    server.connect(serverTransport),
+    client.connect(clientTransport),
+  ]);
+
+  return {
+    client,
+    api,
+    close: async () => {
+      await client.close();
+      await server.close();
+    },
+  };
+}
+
+/**
+ * Call a tool and return the typed result
+ */
+export async function callTool(
+  client: Client,
+  name: string,
+  args: Record<string, unknown> = {},
+): Promise<CallToolResult> {
+  return (await client.callTool({ name, arguments: args })) as CallToolResult;
+}
+
+/**
+ * Text of the first content block
+ */
+export function textOf(result: CallToolResult): string {
+  const block = result.content[0];
+  return block?.type === "text" ? block.text : "";
+}
+
+/**
+ * structuredContent, loosely typed for assertions
+ */
+export function structuredOf(result: CallToolResult): Record<string, any> {
+  return (result.structuredContent ?? {}) as Record<string, any>;
+}
@@ -0,0 +1,98 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { afterEach, describe, expect, it } from "vitest";
+import { startHttpServer, HttpServerHandle } from "../src/services/http-server.js";
+import { RentcastAPIService } from "../src/services/rentcast-api.js";
+import { createServer } from "../src/server.js";
+import { FAKE_API_KEY } from "./fake-rentcast.js";
+
+let handle: HttpServerHandle | undefined;
+
+const start = async (sessionIdleTimeoutMs: number, maxBodyBytes?: number) => {
+  handle = await startHttpServer({
+    mode: "http",
+    host: "127.0.0.1",
+    port: 0,
+    sessionIdleTimeoutMs,
+    ...(maxBodyBytes !== undefined && { maxBodyBytes }),
+    createServer: () => createServer(new RentcastAPIService({ apiKey: FAKE_API_KEY })),
+  });
+  return handle;
+};
+
+const connect = async (url: string) => {
+  const client = new Client({ name: "rentcast-tests", version: "1.0.0" });
+  // The SDK's optional sessionId trips exactOptionalPropertyTypes
+  await client.connect(new StreamableHTTPClientTransport(new URL(`${url}/mcp`)) as Transport);
+  return client;
+};
+
+const sessionCount = async (url: string): Promise<number> =>
+  (await (await fetch(`${url}/health`)).json()).sessions;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+afterEach(async () => {
+  await handle?.close();
+  handle = undefined;
+});
+
+describe("idle sessions", () => {
+  it("closes sessions that stop sending requests", async () => {
+    const { url } = await start(250);
+    await connect(url);
+    expect(await sessionCount(url)).toBe(1);
+
+    await sleep(750);
+    expect(await sessionCount(url)).toBe(0);
+  });
+
+  it("keeps sessions open when the timeout is disabled", async () => {
+    const { url } = await start(0);
+    await connect(url);
+
+    await sleep(100);
+    expect(await sessionCount(url)).toBe(1);
+  });
+});
+
+describe("request bodies", () => {
+  const post = (url: string, body: BodyInit) =>
+    fetch(`${url}/mcp`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream" },
+      body,
+      // Streamed bodies need half-duplex; they are sent without a Content-Length
+      duplex: "half",
+    } as RequestInit);
+
+  it("rejects bodies over the limit with 413", async () => {
+    const { url } = await start(0, 256);
+    const response = await post(url, JSON.stringify({ jsonrpc: "2.0", method: "ping", params: { pad: "x".repeat(1024) } }));
+    expect(response.status).toBe(413);
+    expect((await response.json()).error.message).toContain("exceeds 256 bytes");
+    expect(await sessionCount(url)).toBe(0);
+  });
+
+  it("stops reading a streamed body once it passes the limit", async () => {
+    const { url } = await start(0, 256);
+    const chunk = new TextEncoder().encode("x".repeat(200));
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(chunk);
+        controller.enqueue(chunk);
+        controller.close();
+      },
+    });
+    const response = await post(url, body);
+    expect(response.status).toBe(413);
+  });
+
+  it("still accepts bodies under the limit", async () => {
+    const { url } = await start(0);
+    const client = await connect(url);
+    expect(await sessionCount(url)).toBe(1);
+    await client.close();
+  });
+});
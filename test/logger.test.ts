@@ -0,0 +1,109 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { Logger, logger, redactParams } from "../src/services/logger.js";
+import { FakeRentcastServer } from "./fake-rentcast.js";
+import { callTool, connectClient, Harness } from "./harness.js";
+
+const PROPERTY_ID = "1011-W-23rd-St,-Austin,-TX-78705";
+
+describe("Logger", () => {
+  it("writes one JSON object per line at or above the level", () => {
+    const lines: string[] = [];
+    const log = new Logger("info", (line) => lines.push(line));
+    log.debug("hidden");
+    log.info("shown", { endpoint: "/markets", skipped: undefined });
+    log.error("failed", { error: new Error("boom") });
+
+    expect(lines).toHaveLength(2);
+    expect(lines.every((line) => line.endsWith("\n"))).toBe(true);
+    const [info, error] = lines.map((line) => JSON.parse(line));
+    expect(info).toMatchObject({ level: "info", msg: "shown", endpoint: "/markets" });
+    expect(info).not.toHaveProperty("skipped");
+    expect(error.error).toMatchObject({ name: "Error", message: "boom" });
+  });
+
+  it("writes nothing when silent", () => {
+    const write = vi.fn();
+    new Logger("silent", write).error("failed");
+    expect(write).not.toHaveBeenCalled();
+  });
+
+  it("redacts secrets and summarizes long arrays", () => {
+    expect(
+      redactParams({
+        zipCode: "78705",
+        apiKey: "secret",
+        auth: { token: "abc" },
+        properties: Array.from({ length: 50 }, (_, i) => ({ id: i })),
+        missing: undefined,
+      }),
+    ).toEqual({
+      zipCode: "78705",
+      apiKey: "[REDACTED]",
+      auth: { token: "[REDACTED]" },
+      properties: "[50 items]",
+    });
+  });
+});
+
+describe("request tracing", () => {
+  const fake = new FakeRentcastServer();
+  let harness: Harness;
+  let lines: Record<string, any>[];
+
+  beforeAll(async () => {
+    await fake.start();
+  });
+  afterAll(async () => {
+    await fake.stop();
+  });
+  beforeEach(async () => {
+    fake.reset();
+    lines = [];
+    vi.spyOn(process.stderr, "write").mockImplementation((chunk) => {
+      lines.push(JSON.parse(String(chunk)));
+      return true;
+    });
+    logger.setLevel("debug");
+    harness = await connectClient(fake);
+  });
+  afterEach(async () => {
+    await harness.close();
+    logger.setLevel("silent");
+    vi.restoreAllMocks();
+  });
+
+  it("correlates a tool call with its upstream requests", async () => {
+    await callTool(harness.client, "get_property_details", { id: PROPERTY_ID });
+    await callTool(harness.client, "analyze_market", { zipCode: "78705" });
+
+    const calls = lines.filter((l) => l.msg === "Tool called");
+    expect(calls[0]).toMatchObject({ tool: "get_property_details", params: { id: PROPERTY_ID } });
+    expect(calls[0]?.requestId).not.toBe(calls[1]?.requestId);
+
+    const [called, upstream, completed] = lines.filter((l) => l.requestId === calls[0]?.requestId);
+    expect([called?.msg, upstream?.msg, completed?.msg]).toEqual(["Tool called", "Rentcast response", "Tool completed"]);
+    expect(upstream).toMatchObject({ endpoint: `/properties/${PROPERTY_ID}`, status: 200, attempt: 1 });
+    expect(typeof upstream?.latencyMs).toBe("number");
+    expect(typeof completed?.latencyMs).toBe("number");
+  });
+
+  it("logs upstream errors and failed tool calls", async () => {
+    fake.enqueue("markets", { status: 503, body: { message: "busy" } });
+    await callTool(harness.client, "analyze_market", { zipCode: "00000" });
+
+    expect(lines.map((l) => [l.level, l.msg, l.status])).toEqual([
+      ["info", "Tool called", undefined],
+      ["warn", "Rentcast error response", 503],
+      ["debug", "Retrying Rentcast request", undefined],
+      ["warn", "Rentcast error response", 404],
+      ["warn", "Tool returned an error", undefined],
+    ]);
+    expect(new Set(lines.map((l) => l.requestId)).size).toBe(1);
+  });
+
+  it("never logs the API key", async () => {
+    await callTool(harness.client, "get_server_status");
+    await callTool(harness.client, "search_properties", { zipCode: "78705", limit: 3 });
+    expect(JSON.stringify(lines)).not.toContain(fake.apiKey);
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { analyzeMarketTrends } from "../src/services/market-trends.js";
+
+const history = (points: Record<string, number>) =>
+  Object.fromEntries(
+    Object.entries(points).map(([month, medianPrice]) => [month, { date: `${month}-01T00:00:00.000Z`, medianPrice }]),
+  );
+
+const medianPrice = (stats: Record<string, any>) =>
+  analyzeMarketTrends(stats, "sale")?.metrics.find((m) => m.metric === "medianPrice");
+
+describe("analyzeMarketTrends", () => {
+  it("compares with the previous month and the same month a year earlier", () => {
+    const metric = medianPrice({
+      history: history({ "2025-08": 500000, "2026-07": 540000, "2026-08": 550000 }),
+    });
+    expect(metric).toMatchObject({ previousMonth: 540000, yearAgo: 500000, yearOverYearPercent: 10 });
+  });
+
+  it("omits month-over-month when the previous month is missing", () => {
+    const metric = medianPrice({
+      history: history({ "2026-05": 520000, "2026-08": 550000 }),
+    });
+    expect(metric).not.toHaveProperty("previousMonth");
+    expect(metric).not.toHaveProperty("monthOverMonthPercent");
+    expect(metric?.windowChangePercent).toBe(5.8);
+  });
+});
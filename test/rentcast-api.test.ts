@@ -0,0 +1,137 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { RentcastAPIService } from "../src/services/rentcast-api.js";
+import { ResponseCache } from "../src/services/response-cache.js";
+import { RateLimiter } from "../src/services/rate-limiter.js";
+import { FakeRentcastServer } from "./fake-rentcast.js";
+
+const fake = new FakeRentcastServer();
+const client = (options: { apiKey?: string; maxApiCallsPerSession?: number } = {}) =>
+  new RentcastAPIService({ apiKey: fake.apiKey, baseUrl: fake.url, ...options });
+
+beforeAll(async () => {
+  await fake.start();
+});
+afterAll(async () => {
+  await fake.stop();
+});
+beforeEach(() => fake.reset());
+
+describe("retries", () => {
+  it("retries transient failures until one succeeds", async () => {
+    fake.enqueue("markets", { status: 503, body: { message: "busy" } }, { status: 502 });
+    const result = await client().getMarketData({ zipCode: "78705" });
+    expect(result.success).toBe(true);
+    expect(result.attempts).toBe(3);
+    expect(fake.requestsFor("markets")).toHaveLength(3);
+  });
+
+  it("honours Retry-After on 429", async () => {
+    fake.enqueue("properties/{id}", {
+      status: 429,
+      headers: { "Retry-After": "0" },
+      body: { message: "Too many requests" },
+    });
+    const result = await client().getProperty("1011-W-23rd-St,-Austin,-TX-78705");
+    expect(result.success).toBe(true);
+    expect(result.attempts).toBe(2);
+  });
+
+  it("gives up after MAX_RETRY_ATTEMPTS", async () => {
+    fake.enqueue(
+      "avm/value",
+      { status: 500, body: { message: "boom" } },
+      { status: 500, body: { message: "boom" } },
+      { status: 500, body: { message: "boom" } },
+    );
+    const result = await client().getPropertyValue({ address: "1011 W 23rd St, Austin, TX 78705" });
+    expect(result.success).toBe(false);
+    expect(result.error?.type).toBe("upstream");
+    expect(result.attempts).toBe(3);
+  });
+
+  it("does not retry permanent errors", async () => {
+    const result = await client().getProperty("missing");
+    expect(result.success).toBe(false);
+    expect(result.error?.type).toBe("not_found");
+    expect(fake.requestsFor("properties/{id}")).toHaveLength(1);
+  });
+
+  it("does not retry an invalid API key", async () => {
+    const result = await client({ apiKey: "wrong-key" }).getMarketData({ zipCode: "78705" });
+    expect(result.error?.type).toBe("auth");
+    expect(fake.requests).toHaveLength(1);
+  });
+});
+
+describe("cache and budget", () => {
+  it("serves repeated requests from the cache", async () => {
+    const api = client();
+    await api.getMarketData({ zipCode: "78705" });
+    const second = await api.getMarketData({ zipCode: "78705" });
+    expect(second.cached).toBe(true);
+    expect(fake.requestsFor("markets")).toHaveLength(1);
+    expect(api.getBudgetStatus().callsMade).toBe(1);
+  });
+
+  it("charges every retry attempt to the session budget", async () => {
+    fake.enqueue("markets", { status: 503, body: { message: "busy" } }, { status: 503 });
+    const api = client();
+    const result = await api.getMarketData({ zipCode: "78705" });
+    expect(result.attempts).toBe(3);
+    expect(api.getBudgetStatus().callsMade).toBe(fake.requestsFor("markets").length);
+    expect(api.getUsageStats()["markets"]).toMatchObject({ calls: 3, errors: 2 });
+  });
+
+  it("stops retrying when the budget runs out", async () => {
+    fake.enqueue("markets", { status: 503, body: { message: "busy" } }, { status: 503 });
+    const api = client({ maxApiCallsPerSession: 2 });
+    const result = await api.getMarketData({ zipCode: "78705" });
+    expect(result.success).toBe(false);
+    expect(result.budgetExhausted?.reason).toBe("session_limit");
+    expect(result.attempts).toBe(2);
+    expect(fake.requestsFor("markets")).toHaveLength(2);
+    expect(api.getBudgetStatus().callsMade).toBe(2);
+  });
+
+  it("stops calling Rentcast when the session budget is spent", async () => {
+    const api = client({ maxApiCallsPerSession: 1 });
+    await api.getMarketData({ zipCode: "78705" });
+    const blocked = await api.getMarketData({ zipCode: "78702" });
+    expect(blocked.success).toBe(false);
+    expect(blocked.budgetExhausted?.reason).toBe("session_limit");
+    expect(fake.requestsFor("markets")).toHaveLength(1);
+  });
+
+  it("shares one budget across services given the same limiter", async () => {
+    const rateLimiter = new RateLimiter({ maxCallsPerSession: 1, enableRateLimiting: false, ratePerMinute: 60 });
+    const first = new RentcastAPIService({ apiKey: fake.apiKey, baseUrl: fake.url, rateLimiter });
+    const second = new RentcastAPIService({ apiKey: fake.apiKey, baseUrl: fake.url, rateLimiter });
+    await first.getMarketData({ zipCode: "78705" });
+    const blocked = await second.getMarketData({ zipCode: "78702" });
+    expect(blocked.budgetExhausted?.reason).toBe("session_limit");
+    expect(second.getBudgetStatus().callsMade).toBe(1);
+  });
+
+  it("honours a budget of zero", async () => {
+    const blocked = await client({ maxApiCallsPerSession: 0 }).getMarketData({ zipCode: "78705" });
+    expect(blocked.budgetExhausted?.reason).toBe("session_limit");
+    expect(fake.requests).toHaveLength(0);
+  });
+});
+
+describe("disk cache", () => {
+  it("keeps entries separate per client", async () => {
+    const cacheDir = mkdtempSync(path.join(tmpdir(), "rentcast-cache-"));
+    const cache = (clientKey: string) => new ResponseCache({ maxEntries: 10, cacheDir, clientKey });
+    try {
+      await cache("key-a").set("/markets", { zipCode: "78705" }, { zipCode: "78705" });
+      expect(await cache("key-a").get("/markets", { zipCode: "78705" })).not.toBeNull();
+      expect(await cache("key-b").get("/markets", { zipCode: "78705" })).toBeNull();
+    } finally {
+      rmSync(cacheDir, { recursive: true, force: true });
+    }
+  });
+});
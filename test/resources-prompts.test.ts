@@ -0,0 +1,129 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { FakeRentcastServer } from "./fake-rentcast.js";
+import { callTool, connectClient, Harness } from "./harness.js";
+
+const PROPERTY_ID = "1011-W-23rd-St,-Austin,-TX-78705";
+
+const fake = new FakeRentcastServer();
+let harness: Harness;
+
+beforeAll(async () => {
+  await fake.start();
+});
+afterAll(async () => {
+  await fake.stop();
+});
+beforeEach(async () => {
+  fake.reset();
+  harness = await connectClient(fake);
+});
+afterEach(async () => {
+  await harness.close();
+});
+
+describe("resources", () => {
+  it("registers the property, listing and market templates", async () => {
+    const { resourceTemplates } = await harness.client.listResourceTemplates();
+    expect(resourceTemplates.map((t) => t.uriTemplate).sort()).toEqual([
+      "rentcast://listing/rental/{id}",
+      "rentcast://listing/sale/{id}",
+      "rentcast://market/{zipCode}",
+      "rentcast://property/{id}",
+    ]);
+  });
+
+  it("lists entities fetched by tools", async () => {
+    expect((await harness.client.listResources()).resources).toEqual([]);
+
+    await callTool(harness.client, "get_property_details", { id: PROPERTY_ID });
+    await callTool(harness.client, "analyze_market", { zipCode: "78705" });
+
+    const { resources } = await harness.client.listResources();
+    expect(resources.map((r) => [r.uri, r.name])).toEqual([
+      [`rentcast://property/${encodeURIComponent(PROPERTY_ID)}`, "1011 W 23rd St, Austin, TX 78705"],
+      ["rentcast://market/78705", "Market ZIP 78705"],
+    ]);
+  });
+
+  it("reads a property as JSON and markdown", async () => {
+    const { contents } = await harness.client.readResource({
+      uri: `rentcast://property/${encodeURIComponent(PROPERTY_ID)}`,
+    });
+    expect(contents.map((c) => c.mimeType)).toEqual(["application/json", "text/markdown"]);
+
+    const json = JSON.parse(String(contents[0]?.text));
+    expect(json.property.id).toBe(PROPERTY_ID);
+    expect(json.timeline).toHaveLength(2);
+    expect(String(contents[1]?.text)).toContain("Property Timeline");
+  });
+
+  it("reads sale and rental listings and markets", async () => {
+    // Template expansion percent-encodes the commas in Rentcast IDs
+    const id = encodeURIComponent(PROPERTY_ID);
+    const sale = await harness.client.readResource({ uri: `rentcast://listing/sale/${id}` });
+    const rental = await harness.client.readResource({ uri: `rentcast://listing/rental/${id}` });
+    const market = await harness.client.readResource({ uri: "rentcast://market/78702" });
+
+    expect(JSON.parse(String(sale.contents[0]?.text)).listing.price).toBe(749000);
+    expect(JSON.parse(String(rental.contents[0]?.text)).listingType).toBe("rental");
+    expect(JSON.parse(String(market.contents[0]?.text)).trends.sale.direction).toBe("heating");
+    expect(fake.requestsFor("markets")[0]?.params.historyRange).toBe("13");
+  });
+
+  it("fails loudly for missing entities and bad ZIP codes", async () => {
+    await expect(harness.client.readResource({ uri: "rentcast://property/missing" })).rejects.toThrow(/404/);
+    await expect(harness.client.readResource({ uri: "rentcast://market/abc" })).rejects.toThrow(/5 digits/);
+    expect(fake.requestsFor("markets")).toHaveLength(0);
+  });
+
+  it("completes IDs from recently fetched entities", async () => {
+    await callTool(harness.client, "get_listing_details", { id: PROPERTY_ID, listingType: "sale" });
+    const { completion } = await harness.client.complete({
+      ref: { type: "ref/resource", uri: "rentcast://listing/sale/{id}" },
+      argument: { name: "id", value: "1011" },
+    });
+    expect(completion.values).toEqual([PROPERTY_ID]);
+  });
+});
+
+describe("prompts", () => {
+  it("registers the workflow prompts", async () => {
+    const { prompts } = await harness.client.listPrompts();
+    expect(prompts.map((p) => p.name).sort()).toEqual([
+      "listing-due-diligence",
+      "neighborhood-brief",
+      "rent-pricing-advice",
+      "underwrite-rental",
+    ]);
+  });
+
+  it("builds instructions that name the tools and pass arguments through", async () => {
+    const { messages } = await harness.client.getPrompt({
+      name: "underwrite-rental",
+      arguments: { address: "1011 W 23rd St, Austin, TX 78705", purchasePrice: "700000" },
+    });
+    const text = String(messages[0]?.content.type === "text" && messages[0].content.text);
+    for (const tool of ["get_property_value", "get_rent_estimates", "analyze_market", "analyze_investment"]) {
+      expect(text).toContain(tool);
+    }
+    expect(text).toContain("purchasePrice: 700000");
+    expect(text).toContain("historyRange: 13");
+    expect(text).not.toContain("interestRate");
+  });
+
+  it("uses defaults for omitted options", async () => {
+    const { messages } = await harness.client.getPrompt({
+      name: "listing-due-diligence",
+      arguments: { listingId: "abc" },
+    });
+    const text = String(messages[0]?.content.type === "text" && messages[0].content.text);
+    expect(text).toContain('listingType: "sale"');
+    expect(text).toContain("get_property_value");
+  });
+
+  it("rejects invalid prompt arguments", async () => {
+    await expect(
+      harness.client.getPrompt({ name: "neighborhood-brief", arguments: { zipCode: "787" } }),
+    ).rejects.toThrow(/5-digit ZIP code/);
+  });
+});
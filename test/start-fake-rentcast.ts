@@ -0,0 +1,18 @@
+import { FakeRentcastServer } from "./fake-rentcast.js";
+
+/**
+ * Run the fake Rentcast backend on its own, for manual testing with the MCP
+ * Inspector or a client: RENTCAST_BASE_URL=<printed url> npm run dev
+ */
+const port = Number(process.env.FAKE_RENTCAST_PORT ?? 4010);
+const fake = new FakeRentcastServer({
+  ...(process.env.RENTCAST_API_KEY && { apiKey: process.env.RENTCAST_API_KEY }),
+});
+
+const url = await fake.start(port);
+console.log(`Fake Rentcast API listening: RENTCAST_BASE_URL=${url}`);
+console.log(`Accepts X-Api-Key: ${fake.apiKey}`);
+
+process.on("SIGINT", () => {
+  fake.stop().then(() => process.exit(0));
+});
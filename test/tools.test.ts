@@ -0,0 +1,442 @@
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { config } from "../src/services/config.js";
+import { RateLimiter } from "../src/services/rate-limiter.js";
+import { FakeRentcastServer } from "./fake-rentcast.js";
+import { callTool, connectClient, Harness, structuredOf, textOf } from "./harness.js";
+
+const PROPERTY_ID = "1011-W-23rd-St,-Austin,-TX-78705";
+const ADDRESS = "1011 W 23rd St, Austin, TX 78705";
+
+const fake = new FakeRentcastServer();
+let harness: Harness;
+
+beforeAll(async () => {
+  await fake.start();
+});
+afterAll(async () => {
+  await fake.stop();
+});
+// A fresh server per test: own call budget and response cache
+beforeEach(async () => {
+  fake.reset();
+  harness = await connectClient(fake);
+});
+afterEach(async () => {
+  await harness.close();
+});
+
+const call = (name: string, args: Record<string, unknown> = {}) =>
+  callTool(harness.client, name, args);
+
+describe("tool registry", () => {
+  it("lists every tool with an output schema", async () => {
+    const { tools } = await harness.client.listTools();
+    expect(tools.map((tool) => tool.name).sort()).toEqual([
+      "analyze_investment",
+      "analyze_market",
+      "compare_markets",
+      "get_listing_details",
+      "get_property_details",
+      "get_property_value",
+      "get_random_properties",
+      "get_rent_estimates",
+      "get_rental_listings",
+      "get_sale_listings",
+      "get_server_status",
+      "search_properties",
+      "value_portfolio",
+    ]);
+    expect(tools.every((tool) => tool.outputSchema)).toBe(true);
+  });
+});
+
+describe("search_properties", () => {
+  it("returns properties for a ZIP code", async () => {
+    const result = await call("search_properties", { zipCode: "78705", limit: 5 });
+    expect(result.isError).toBeFalsy();
+    const data = structuredOf(result);
+    expect(data.count).toBe(5);
+    expect(data.properties[0].formattedAddress).toBe(ADDRESS);
+    expect(fake.requestsFor("properties")[0]?.params).toMatchObject({ zipCode: "78705", limit: "5" });
+  });
+
+  it("collects several pages with maxResults", async () => {
+    const result = await call("search_properties", { zipCode: "78705", limit: 3, maxResults: 6 });
+    const data = structuredOf(result);
+    expect(data.count).toBe(6);
+    expect(data.pagesFetched).toBe(2);
+    expect(fake.requestsFor("properties").map((r) => r.params.offset)).toEqual([undefined, "3"]);
+  });
+
+  it("reports an empty result", async () => {
+    const result = await call("search_properties", { zipCode: "00000" });
+    expect(structuredOf(result).count ?? 0).toBe(0);
+  });
+
+  it("surfaces validation errors from Rentcast", async () => {
+    const result = await call("search_properties", { city: "Austin", state: "ZZ" });
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toContain("Invalid state abbreviation");
+    expect(textOf(result)).toContain("Error Type: validation");
+  });
+});
+
+describe("get_random_properties", () => {
+  it("returns random properties, including sparse records", async () => {
+    const result = await call("get_random_properties", { limit: 5 });
+    expect(result.isError).toBeFalsy();
+    const data = structuredOf(result);
+    expect(data.count).toBe(5);
+    expect(data.properties[4].bedrooms ?? null).toBeNull();
+  });
+});
+
+describe("analyze_market", () => {
+  it("returns statistics and trends", async () => {
+    const result = await call("analyze_market", { zipCode: "78705" });
+    expect(result.isError).toBeFalsy();
+    const data = structuredOf(result);
+    expect(data.market.zipCode).toBe("78705");
+    expect(data.market.saleData.medianPrice).toBe(633000);
+    expect(data.trends.sale.months).toBe(13);
+    expect(fake.requestsFor("markets")[0]?.params.historyRange).toBe("13");
+    expect(textOf(result)).toContain("Market Statistics for ZIP: 78705");
+  });
+
+  it("classifies heating and cooling markets", async () => {
+    const heating = structuredOf(await call("analyze_market", { zipCode: "78702" }));
+    const cooling = structuredOf(await call("analyze_market", { zipCode: "78704" }));
+    expect(heating.trends.sale.direction).toBe("heating");
+    expect(cooling.trends.sale.direction).toBe("cooling");
+  });
+
+  it("handles a market with rental data only", async () => {
+    const result = await call("analyze_market", { zipCode: "78712" });
+    const data = structuredOf(result);
+    expect(data.market.saleData ?? null).toBeNull();
+    expect(data.market.rentalData.medianRent).toBe(1510);
+  });
+
+  it("reports a missing market as not found", async () => {
+    const result = await call("analyze_market", { zipCode: "00000" });
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toContain("Error Type: not_found");
+  });
+});
+
+describe("get_property_value", () => {
+  it("returns the estimate with sorted comparables and a summary", async () => {
+    const result = await call("get_property_value", { address: ADDRESS, sortComparablesBy: "distance" });
+    expect(result.isError).toBeFalsy();
+    const data = structuredOf(result);
+    expect(data.price).toBe(712000);
+    expect(data.comparables).toHaveLength(5);
+    const distances = data.comparables.map((c: any) => c.distance);
+    expect(distances).toEqual([...distances].sort((a, b) => a - b));
+    expect(data.comparableSummary.count).toBe(5);
+    expect(data.settings.request.address).toBe(ADDRESS);
+  });
+
+  it("hydrates the subject from a propertyId", async () => {
+    const result = await call("get_property_value", { propertyId: PROPERTY_ID });
+    const data = structuredOf(result);
+    expect(data.subject.hydratedFrom).toContain(PROPERTY_ID);
+    expect(data.subject.hydratedFields).toContain("squareFootage");
+    expect(fake.requestsFor("avm/value")[0]?.params).toMatchObject({ address: ADDRESS, squareFootage: "1650" });
+  });
+
+  it("passes comparable-selection controls through", async () => {
+    await call("get_property_value", { address: ADDRESS, maxRadius: 2, daysOld: 180, compCount: 10 });
+    expect(fake.requestsFor("avm/value")[0]?.params).toMatchObject({ maxRadius: "2", daysOld: "180", compCount: "10" });
+  });
+
+  it("handles an estimate without comparables", async () => {
+    const result = await call("get_property_value", { address: "4500 Duval St, Austin, TX 78751" });
+    const data = structuredOf(result);
+    expect(data.price).toBe(318000);
+    expect(data.comparables).toEqual([]);
+    expect(data.comparableSummary.count).toBe(0);
+  });
+
+  it("reports an unresolvable address", async () => {
+    const result = await call("get_property_value", { address: "0 Nowhere Rd, Austin, TX 78705" });
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toContain("Unable to locate a property");
+  });
+});
+
+describe("get_rent_estimates", () => {
+  it("returns the rent estimate with comparables", async () => {
+    const result = await call("get_rent_estimates", { address: ADDRESS, comparablesLimit: 3 });
+    expect(result.isError).toBeFalsy();
+    const data = structuredOf(result);
+    expect(data.rent).toBe(3300);
+    expect(data.rentRangeLow).toBe(2950);
+    expect(data.comparables).toHaveLength(5);
+    expect(fake.requestsFor("avm/rent/long-term")[0]?.params).toEqual({ address: ADDRESS });
+  });
+
+  it("builds the same upstream request as get_property_value", async () => {
+    const args = { propertyId: PROPERTY_ID, maxRadius: 2 };
+    await call("get_rent_estimates", args);
+    await call("get_property_value", args);
+    const params = fake.requestsFor("avm/rent/long-term")[0]?.params;
+    expect(params).toMatchObject({ address: ADDRESS, maxRadius: "2" });
+    expect(params).not.toHaveProperty("propertyId");
+    expect(params).toEqual(fake.requestsFor("avm/value")[0]?.params);
+  });
+
+  it("passes zero-valued attributes through", async () => {
+    await call("get_rent_estimates", { address: ADDRESS, bedrooms: 0, bathrooms: 1 });
+    expect(fake.requestsFor("avm/rent/long-term")[0]?.params).toMatchObject({ bedrooms: "0", bathrooms: "1" });
+  });
+});
+
+describe("listing searches", () => {
+  it("get_sale_listings returns active sale listings", async () => {
+    const result = await call("get_sale_listings", { zipCode: "78705", limit: 4 });
+    const data = structuredOf(result);
+    expect(data.count).toBe(4);
+    expect(data.listings[0].price).toBe(749000);
+    expect(textOf(result)).toContain(`listingId: "${data.listings[0].id}", listingType: "sale"`);
+    expect(textOf(result)).not.toContain("Quick Parameters");
+  });
+
+  it("get_rental_listings returns monthly rents", async () => {
+    const result = await call("get_rental_listings", { zipCode: "78705" });
+    const data = structuredOf(result);
+    expect(data.count).toBe(6);
+    expect(data.listings[0].price).toBe(3450);
+    expect(textOf(result)).toContain(`listingId: "${data.listings[0].id}", listingType: "rental"`);
+  });
+
+  it("starts from the given offset", async () => {
+    await call("get_sale_listings", { zipCode: "78705", limit: 2, offset: 2 });
+    expect(fake.requestsFor("listings/sale")[0]?.params).toMatchObject({ limit: "2", offset: "2" });
+  });
+
+  it("handles a ZIP code without listings", async () => {
+    const result = await call("get_rental_listings", { zipCode: "00000" });
+    expect(structuredOf(result).count ?? 0).toBe(0);
+  });
+});
+
+describe("get_property_details", () => {
+  it("returns the record and its sale timeline", async () => {
+    const result = await call("get_property_details", { id: PROPERTY_ID });
+    expect(result.isError).toBeFalsy();
+    const data = structuredOf(result);
+    expect(data.property.id).toBe(PROPERTY_ID);
+    expect(data.timeline.map((e: any) => [e.kind, e.price])).toEqual([
+      ["sold", 385000],
+      ["sold", 610000],
+    ]);
+    expect(data.timeline[1].priceChange).toBe(225000);
+  });
+
+  it("reports an unknown property", async () => {
+    const result = await call("get_property_details", { id: "missing" });
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toContain("Error Type: not_found");
+  });
+});
+
+describe("get_listing_details", () => {
+  it("returns a sale listing with contacts and price history", async () => {
+    const result = await call("get_listing_details", { id: PROPERTY_ID, listingType: "sale" });
+    expect(result.isError).toBeFalsy();
+    const data = structuredOf(result);
+    expect(data.listing.listingAgent.name).toBe("Maria Gonzalez");
+    expect(data.timeline.map((e: any) => e.kind)).toEqual(["listed", "removed", "listed"]);
+  });
+
+  it("returns a rental listing", async () => {
+    const result = await call("get_listing_details", { id: PROPERTY_ID, listingType: "rental" });
+    const data = structuredOf(result);
+    expect(data.listingType).toBe("rental");
+    expect(data.listing.price).toBe(3450);
+    expect(fake.requestsFor("listings/rental/long-term/{id}")).toHaveLength(1);
+  });
+
+  it("reports an unknown listing", async () => {
+    const result = await call("get_listing_details", { id: "missing", listingType: "sale" });
+    expect(result.isError).toBe(true);
+  });
+});
+
+describe("compare_markets", () => {
+  it("ranks markets and lists failures separately", async () => {
+    const result = await call("compare_markets", {
+      zipCodes: ["78705", "78702", "78704", "00000"],
+      sortBy: "medianPrice",
+      order: "asc",
+    });
+    expect(result.isError).toBeFalsy();
+    const data = structuredOf(result);
+    expect(data.markets.map((m: any) => m.zipCode)).toEqual(["78702", "78705", "78704"]);
+    expect(data.markets[0].rank).toBe(1);
+    expect(data.failures).toEqual([expect.objectContaining({ zipCode: "00000" })]);
+  });
+});
+
+describe("analyze_investment", () => {
+  it("underwrites from AVM estimates and the property record", async () => {
+    const result = await call("analyze_investment", { propertyId: PROPERTY_ID });
+    expect(result.isError).toBeFalsy();
+    const data = structuredOf(result);
+    expect(data.assumptions.purchasePrice).toBe(712000);
+    expect(data.assumptions.monthlyRent).toBe(3300);
+    expect(data.assumptions.annualPropertyTax).toBe(12410);
+    expect(data.assumptions.monthlyHoa).toBe(45);
+    expect(data.sources.annualPropertyTax).toBe("property record");
+    expect(data.metrics.capRate).toBeTypeOf("number");
+    // The record fetched to hydrate the subject is reused for HOA and taxes
+    expect(harness.api.getUsageStats()["properties/{id}"]).toMatchObject({ calls: 1, cacheHits: 0 });
+  });
+
+  it("looks up listingId as a sale listing by default", async () => {
+    const { tools } = await harness.client.listTools();
+    const schema = tools.find((tool) => tool.name === "analyze_investment")?.inputSchema as any;
+    expect(schema.properties.listingType.description).toContain("default: sale");
+
+    const result = await call("analyze_investment", { listingId: PROPERTY_ID });
+    expect(result.isError).toBeFalsy();
+    expect(fake.requestsFor("listings/sale/{id}")).toHaveLength(1);
+    expect(fake.requestsFor("listings/rental/long-term/{id}")).toHaveLength(0);
+  });
+
+  it("prefers the given assumptions over estimates and the record", async () => {
+    const result = await call("analyze_investment", {
+      address: ADDRESS,
+      purchasePrice: 500000,
+      monthlyRent: 4000,
+      downPaymentPercent: 100,
+      annualPropertyTax: 10000,
+      monthlyHoa: 0,
+    });
+    const data = structuredOf(result);
+    expect(data.financing.loanAmount).toBe(0);
+    expect(data.metrics.dscr ?? null).toBeNull();
+    expect(data.assumptions).toMatchObject({ purchasePrice: 500000, monthlyRent: 4000 });
+    expect(data.estimates.value ?? null).toBeNull();
+    expect(fake.requestsFor()).toHaveLength(0);
+  });
+
+  it("only runs the AVM whose figure was not given", async () => {
+    const result = await call("analyze_investment", { propertyId: PROPERTY_ID, purchasePrice: 650000 });
+    expect(structuredOf(result).sources).toMatchObject({ purchasePrice: "input", monthlyRent: "avm" });
+    expect(fake.requestsFor("avm/value")).toHaveLength(0);
+    expect(fake.requestsFor("avm/rent/long-term")).toHaveLength(1);
+  });
+});
+
+describe("value_portfolio", () => {
+  it("values an inline list and reports failures per property", async () => {
+    const result = await call("value_portfolio", {
+      properties: [
+        { label: "Home", address: ADDRESS },
+        { label: "By ID", propertyId: PROPERTY_ID },
+        { label: "Unknown", propertyId: "missing" },
+      ],
+    });
+    expect(result.isError).toBeFalsy();
+    const data = structuredOf(result);
+    expect([data.succeeded, data.partial, data.failed]).toEqual([2, 0, 1]);
+    expect(data.totals.estimatedValue).toBe(1424000);
+    expect(data.failures[0].reason).toContain("Property lookup failed");
+  });
+
+  it("stops at the API call ceiling", async () => {
+    const result = await call("value_portfolio", {
+      properties: [{ address: ADDRESS }, { address: "4500 Duval St, Austin, TX 78751" }],
+      maxApiCalls: 3,
+    });
+    const data = structuredOf(result);
+    expect(data.apiCallsUsed).toBe(3);
+    expect(data.partial).toBe(1);
+    expect(data.failures[0].reason).toContain("ceiling reached");
+  });
+
+  it("charges retry attempts to the ceiling", async () => {
+    fake.enqueue("avm/value", { status: 503, body: { message: "busy" } });
+    const result = await call("value_portfolio", { properties: [{ address: ADDRESS }], maxApiCalls: 2 });
+    const data = structuredOf(result);
+    expect(fake.requestsFor("avm/value")).toHaveLength(2);
+    expect(fake.requestsFor("avm/rent/long-term")).toHaveLength(0);
+    expect(data.apiCallsUsed).toBe(2);
+    expect(data.properties[0].value).toBeGreaterThan(0);
+    expect(data.failures[0].reason).toContain("Rent: Batch API call ceiling reached");
+  });
+
+  it("caps the ceiling at the remaining session budget", async () => {
+    await harness.close();
+    const rateLimiter = new RateLimiter({ maxCallsPerSession: 3, enableRateLimiting: false, ratePerMinute: 60 });
+    harness = await connectClient(fake, { rateLimiter });
+    await call("analyze_market", { zipCode: "78705" });
+
+    const result = await call("value_portfolio", {
+      properties: [{ address: ADDRESS }, { address: "4500 Duval St, Austin, TX 78751" }],
+    });
+    const data = structuredOf(result);
+    expect([data.apiCallCeiling, data.requestedApiCallCeiling]).toEqual([2, config.maxBatchApiCalls]);
+    expect(data.apiCallsUsed).toBe(2);
+    expect(data.failures[0].reason).toContain("Session API call budget reached");
+    expect(textOf(result)).toContain("capped at the remaining session budget");
+  });
+
+  it("does not charge calls blocked by the rate limiter", async () => {
+    await harness.close();
+    const rateLimiter = new RateLimiter({ maxCallsPerSession: 10, enableRateLimiting: true, ratePerMinute: 1 });
+    harness = await connectClient(fake, { rateLimiter });
+
+    const result = await call("value_portfolio", { properties: [{ address: ADDRESS }] });
+    const data = structuredOf(result);
+    expect(data.apiCallCeiling).toBe(10);
+    expect(data.apiCallsUsed).toBe(1);
+    expect(data.partial).toBe(1);
+  });
+
+  it("reads a CSV inside BATCH_INPUT_DIR and rejects paths outside it", async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), "portfolio-"));
+    writeFileSync(
+      path.join(dir, "portfolio.csv"),
+      `label,address,bedrooms\n"Home, main","${ADDRESS}",3\n`,
+    );
+    const originalDir = config.batchInputDir;
+    config.applyOverrides({ batchInputDir: dir });
+
+    try {
+      const ok = structuredOf(await call("value_portfolio", { csvPath: "portfolio.csv", estimates: "value" }));
+      expect(ok.properties[0]).toMatchObject({ label: "Home, main", status: "ok", value: 712000 });
+
+      const outside = await call("value_portfolio", { csvPath: "../secret.csv" });
+      expect(outside.isError).toBe(true);
+      expect(textOf(outside)).toContain("must be inside");
+    } finally {
+      config.applyOverrides({ batchInputDir: originalDir });
+    }
+  });
+});
+
+describe("get_server_status", () => {
+  it("reports budget and per-endpoint usage", async () => {
+    await call("analyze_market", { zipCode: "78705" });
+    await call("analyze_market", { zipCode: "78705" });
+    const result = await call("get_server_status");
+    const data = structuredOf(result);
+    expect(data.budget.callsMade).toBe(1);
+    expect(textOf(result)).toContain(`Remaining Budget: ${data.budget.remainingCalls}`);
+    expect(data.endpoints.markets).toMatchObject({ calls: 1, cacheHits: 1, errors: 0 });
+    expect(String(data.config.rentcastApiKey)).not.toContain("test-key");
+  });
+});
+
+describe("argument validation", () => {
+  it("rejects invalid arguments before calling Rentcast", async () => {
+    await expect(call("compare_markets", { zipCodes: ["78705"] })).rejects.toThrow(/Invalid arguments/);
+    expect(fake.requests).toHaveLength(0);
+  });
+});
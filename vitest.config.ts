@@ -0,0 +1,23 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    include: ["test/**/*.test.ts"],
+    // Config is read once at import time; keep tests offline, fast and
+    // independent of a developer's .env (dotenv never overrides these)
+    env: {
+      RENTCAST_API_KEY: "test-key",
+      RENTCAST_BASE_URL: "http://127.0.0.1:9/v1",
+      ENABLE_CACHE: "true",
+      CACHE_DIR: "",
+      ENABLE_RATE_LIMITING: "false",
+      MAX_API_CALLS_PER_SESSION: "200",
+      MAX_RETRY_ATTEMPTS: "3",
+      RETRY_BASE_DELAY_MS: "1",
+      RETRY_MAX_DELAY_MS: "5",
+      TIMEOUT_SECONDS: "5",
+      // Logger tests capture output by raising the level themselves
+      LOG_LEVEL: "silent",
+    },
+  },
+});